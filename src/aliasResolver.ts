@@ -0,0 +1,173 @@
+/**
+ * Raw custom property declarations: varName → context → declared value text.
+ */
+export type DeclarationMap = Map<string, Map<string, string>>;
+
+export interface VarReference {
+    name: string; // '--blue-600'
+    fallback?: string; // '255 255 255' in var(--surface, 255 255 255)
+    start: number; // offset of 'var('
+    end: number; // offset just past the closing ')'
+}
+
+export interface ResolvedValue {
+    text: string; // the value with every var() substituted, e.g. '37 99 235'
+    chain: string[]; // variables followed, e.g. ['--button-bg', '--blue-600']
+    contextSpecific: boolean; // true when a definition outside 'global' was used
+}
+
+const varStartPattern = /var\s*\(/g;
+
+/**
+ * Finds top-level var() references in a value, including their fallbacks.
+ * Fallbacks may themselves contain var() and nested parentheses. Besides custom
+ * properties, names may be preprocessor variables rewritten as var($x) / var(@x).
+ */
+export function findVarReferences(text: string): VarReference[] {
+    const references: VarReference[] = [];
+    varStartPattern.lastIndex = 0;
+    let match;
+
+    while ((match = varStartPattern.exec(text)) !== null) {
+        const argsStart = match.index + match[0].length;
+        let depth = 1;
+        let comma = -1;
+        let i = argsStart;
+
+        for (; i < text.length && depth > 0; i++) {
+            const ch = text[i];
+            if (ch === '(') {
+                depth++;
+            } else if (ch === ')') {
+                depth--;
+            } else if (ch === ',' && depth === 1 && comma === -1) {
+                comma = i;
+            }
+        }
+
+        if (depth !== 0) {
+            break; // unbalanced
+        }
+
+        const closeParen = i - 1;
+        const name = text.substring(argsStart, comma === -1 ? closeParen : comma).trim();
+        if (/^(?:--|\$|@)/.test(name)) {
+            references.push({
+                name,
+                fallback: comma === -1 ? undefined : text.substring(comma + 1, closeParen).trim(),
+                start: match.index,
+                end: i,
+            });
+        }
+
+        varStartPattern.lastIndex = i;
+    }
+
+    return references;
+}
+
+/**
+ * Resolves a custom property in a context the way the cascade would for an element
+ * inside that context: the context's own definition wins, then the global one.
+ * var() references in the value are substituted recursively, falling back to the
+ * var() fallback when a reference is undefined or part of a cycle.
+ */
+export function resolveVariable(
+    declarations: DeclarationMap,
+    varName: string,
+    context: string,
+    stack: string[] = []
+): ResolvedValue | null {
+    if (stack.includes(varName) || isInCycle(declarations, varName, context)) {
+        return null; // cycle: every property in it is invalid at computed-value time
+    }
+
+    const definitions = declarations.get(varName);
+    const ownValue = definitions?.get(context) ?? definitions?.get('global');
+    if (ownValue === undefined) {
+        return null;
+    }
+
+    const substituted = substituteVariables(declarations, ownValue, context, [...stack, varName]);
+    if (!substituted) {
+        return null;
+    }
+
+    return {
+        text: substituted.text,
+        chain: [varName, ...substituted.chain],
+        contextSpecific: substituted.contextSpecific || (context !== 'global' && definitions?.has(context) === true),
+    };
+}
+
+/**
+ * Whether a custom property depends on itself in a context, e.g. `--a: var(--b)` with
+ * `--b: var(--a, red)`. Per the spec, all properties in a cycle are invalid rather than
+ * falling back, so cycles are detected up front instead of during substitution.
+ */
+export function isInCycle(declarations: DeclarationMap, varName: string, context: string): boolean {
+    const visited = new Set<string>();
+    const pending = [varName];
+
+    while (pending.length > 0) {
+        const current = pending.pop() as string;
+        const definitions = declarations.get(current);
+        const value = definitions?.get(context) ?? definitions?.get('global');
+        if (value === undefined) {
+            continue;
+        }
+        for (const name of referencedNames(value)) {
+            if (name === varName) {
+                return true;
+            }
+            if (!visited.has(name)) {
+                visited.add(name);
+                pending.push(name);
+            }
+        }
+    }
+
+    return false;
+}
+
+function referencedNames(text: string): string[] {
+    return findVarReferences(text).flatMap((reference) => [
+        reference.name,
+        ...(reference.fallback ? referencedNames(reference.fallback) : []),
+    ]);
+}
+
+/**
+ * Substitutes every var() in a value. The chain reported is the one followed
+ * through the first reference, which is the one shown to the user.
+ */
+export function substituteVariables(
+    declarations: DeclarationMap,
+    text: string,
+    context: string,
+    stack: string[] = []
+): ResolvedValue | null {
+    const references = findVarReferences(text);
+    let result = '';
+    let cursor = 0;
+    let chain: string[] | undefined;
+    let contextSpecific = false;
+
+    for (const reference of references) {
+        let replacement: ResolvedValue | null = resolveVariable(declarations, reference.name, context, stack);
+        if (!replacement && reference.fallback !== undefined) {
+            replacement = substituteVariables(declarations, reference.fallback, context, stack);
+        }
+        if (!replacement) {
+            return null;
+        }
+
+        result += text.substring(cursor, reference.start) + replacement.text;
+        cursor = reference.end;
+        chain = chain ?? replacement.chain;
+        contextSpecific = contextSpecific || replacement.contextSpecific;
+    }
+
+    result += text.substring(cursor);
+    return { text: result.trim(), chain: chain ?? [], contextSpecific };
+}
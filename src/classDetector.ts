@@ -0,0 +1,212 @@
+export interface ClassOccurrence {
+    name: string; // 'bg-red-500'
+    start: number; // offset of the class in the document text
+    end: number; // offset just past the class
+    group: number; // classes from the same attribute or call share a group, e.g. for text-/bg- pairs
+}
+
+interface Segment {
+    start: number;
+    end: number;
+    group?: number;
+}
+
+export const DEFAULT_CLASS_ATTRIBUTES = ['className', 'class', 'class:list', 'ngClass'];
+export const DEFAULT_CLASS_FUNCTIONS = ['cn', 'clsx', 'cva', 'twMerge', 'tw'];
+
+let classAttributes = DEFAULT_CLASS_ATTRIBUTES;
+let classFunctions = DEFAULT_CLASS_FUNCTIONS;
+
+/**
+ * Set the attribute and function names whose string contents are class lists
+ * (`trueColors.classAttributes` / `trueColors.classFunctions`).
+ */
+export function setClassSources(attributes: string[], functions: string[]): void {
+    classAttributes = attributes;
+    classFunctions = functions;
+}
+
+/**
+ * Finds every class name written where Tailwind would read one: attribute values
+ * (`className="…"`, `className={cn(…)}`), arguments of class functions (`cn(…)`,
+ * `clsx({ 'bg-red-500': active })`, `cva("…", { variants: … })`), tagged templates
+ * (tw`…`) and `@apply` lists. Strings may span lines, and template literals are
+ * scanned around their `${…}` substitutions.
+ *
+ * Framework bindings are read as expressions: Vue `:class="…"` / `v-bind:class="…"`
+ * and Angular `[class]="…"` / `[ngClass]="…"`. Class directives name a single class:
+ * Svelte `class:bg-red-500={active}` and Angular `[class.bg-red-500]="active"`.
+ */
+export function findClassOccurrences(text: string): ClassOccurrence[] {
+    const segments: Segment[] = [];
+    let groupCount = 0;
+    // Tags the segments collected since `from` as one class list
+    const endGroup = (from: number) => {
+        for (let i = from; i < segments.length; i++) {
+            segments[i].group = segments[i].group ?? groupCount;
+        }
+        groupCount++;
+    };
+
+    if (classAttributes.length > 0) {
+        const names = classAttributes.map(escapeRegExp).join('|');
+        const attributePattern = new RegExp(`(?<![\\w$-])(:|v-bind:|\\[)?(?:${names})\\]?\\s*=\\s*`, 'g');
+        let match;
+        while ((match = attributePattern.exec(text)) !== null) {
+            const from = segments.length;
+            const valueStart = match.index + match[0].length;
+            const ch = text[valueStart];
+            if (match[1] !== undefined && (ch === '"' || ch === "'")) {
+                scanBoundValue(text, valueStart, segments);
+            } else if (ch === '"' || ch === "'") {
+                scanString(text, valueStart, segments, true);
+            } else if (ch === '`') {
+                scanTemplate(text, valueStart, segments);
+            } else if (ch === '{') {
+                scanExpression(text, valueStart + 1, segments);
+            }
+            endGroup(from);
+        }
+    }
+
+    if (classFunctions.length > 0) {
+        const functionPattern = new RegExp(`(?<![\\w$])(?:${classFunctions.map(escapeRegExp).join('|')})\\s*(?=[(\`])`, 'g');
+        let match;
+        while ((match = functionPattern.exec(text)) !== null) {
+            const from = segments.length;
+            const argsStart = match.index + match[0].length;
+            if (text[argsStart] === '`') {
+                scanTemplate(text, argsStart, segments);
+            } else {
+                scanExpression(text, argsStart + 1, segments);
+            }
+            endGroup(from);
+        }
+    }
+
+    const directivePattern = /(?<![\w$-])(?:class:(?!list\b)|\[class\.)([^\s=>"'`{}\]]+)/g;
+    let directive;
+    while ((directive = directivePattern.exec(text)) !== null) {
+        const start = directive.index + directive[0].length - directive[1].length;
+        segments.push({ start, end: start + directive[1].length });
+        endGroup(segments.length - 1);
+    }
+
+    const applyPattern = /@apply\s+([^;{}]+)/g;
+    let apply;
+    while ((apply = applyPattern.exec(text)) !== null) {
+        const start = apply.index + apply[0].length - apply[1].length;
+        segments.push({ start, end: start + apply[1].length });
+        endGroup(segments.length - 1);
+    }
+
+    // A class inside className={cn("…")} is reached through both the attribute and the call
+    const occurrences = new Map<number, ClassOccurrence>();
+    const classPattern = /[^\s"'`]+/g;
+    for (const segment of segments) {
+        const content = text.substring(segment.start, segment.end);
+        classPattern.lastIndex = 0;
+        let cls;
+        while ((cls = classPattern.exec(content)) !== null) {
+            const start = segment.start + cls.index;
+            occurrences.set(start, { name: cls[0], start, end: start + cls[0].length, group: segment.group ?? 0 });
+        }
+    }
+
+    return Array.from(occurrences.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Scans a JS expression up to its unmatched closing bracket, collecting the contents
+ * of every string and template literal. Returns the offset of the closing bracket.
+ */
+function scanExpression(text: string, start: number, segments: Segment[]): number {
+    let depth = 0;
+    let i = start;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i = scanString(text, i, segments, false);
+        } else if (ch === '`') {
+            i = scanTemplate(text, i, segments);
+        } else if (ch === '/' && text[i + 1] === '/') {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? text.length : newline + 1;
+        } else if (ch === '/' && text[i + 1] === '*') {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? text.length : close + 2;
+        } else {
+            if (ch === '(' || ch === '[' || ch === '{') {
+                depth++;
+            } else if (ch === ')' || ch === ']' || ch === '}') {
+                if (depth === 0) {
+                    return i;
+                }
+                depth--;
+            }
+            i++;
+        }
+    }
+
+    return i;
+}
+
+/**
+ * Scans a quoted markup attribute whose value is a JS expression, such as
+ * `:class="{ 'bg-red-500': active }"`. The value ends at the same quote character.
+ */
+function scanBoundValue(text: string, quoteIndex: number, segments: Segment[]): void {
+    const close = text.indexOf(text[quoteIndex], quoteIndex + 1);
+    const valueStart = quoteIndex + 1;
+    const value = text.substring(valueStart, close === -1 ? text.length : close);
+    const inner: Segment[] = [];
+    scanExpression(value, 0, inner);
+    for (const segment of inner) {
+        segments.push({ start: valueStart + segment.start, end: valueStart + segment.end });
+    }
+}
+
+/**
+ * Collects a quoted string's contents and returns the offset past its closing quote.
+ * JS strings end at a newline; markup attribute values may span lines.
+ */
+function scanString(text: string, quoteIndex: number, segments: Segment[], multiline: boolean): number {
+    const quote = text[quoteIndex];
+    let i = quoteIndex + 1;
+
+    while (i < text.length && text[i] !== quote && (multiline || text[i] !== '\n')) {
+        i += text[i] === '\\' ? 2 : 1;
+    }
+
+    segments.push({ start: quoteIndex + 1, end: Math.min(i, text.length) });
+    return i + 1;
+}
+
+/**
+ * Collects a template literal's text around its substitutions, scanning each `${…}`
+ * as an expression, and returns the offset past the closing backtick.
+ */
+function scanTemplate(text: string, backtickIndex: number, segments: Segment[]): number {
+    let chunkStart = backtickIndex + 1;
+    let i = chunkStart;
+
+    while (i < text.length && text[i] !== '`') {
+        if (text[i] === '\\') {
+            i += 2;
+        } else if (text[i] === '$' && text[i + 1] === '{') {
+            segments.push({ start: chunkStart, end: i });
+            i = scanExpression(text, i + 2, segments) + 1;
+            chunkStart = i;
+        } else {
+            i++;
+        }
+    }
+
+    segments.push({ start: chunkStart, end: Math.min(i, text.length) });
+    return i + 1;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
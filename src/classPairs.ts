@@ -0,0 +1,71 @@
+import { ParsedColor } from './colorParser';
+import { parseTailwindClass, TailwindClassInfo } from './tailwindParser';
+import { findClassOccurrences } from './classDetector';
+
+/**
+ * A text color and the background it sits on. Each side holds its color per
+ * context ('global', 'light', 'dark', …).
+ */
+export interface ContrastPair {
+    start: number; // offset of the text color in the document
+    end: number;
+    text: Map<string, ParsedColor>;
+    background: Map<string, ParsedColor>;
+    contexts?: string[]; // limits the check, e.g. to 'dark' for dark:text-* dark:bg-*
+}
+
+/**
+ * Pairs `text-*` with `bg-*` from the same class list. Classes under a variant stack
+ * pair with their counterpart under the same stack, falling back to the base class:
+ * `text-slate-900 bg-white dark:text-slate-100` checks `dark:text-slate-100` on `bg-white`.
+ * Only classes `classColors` resolves take a side, so `text-sm` or `bg-cover` after
+ * the color class leave the pair intact.
+ */
+export function findClassPairs(
+    text: string,
+    classColors: (info: TailwindClassInfo) => Map<string, ParsedColor> | undefined,
+    detectedContexts: Set<string>
+): ContrastPair[] {
+    type Side = { colors: Map<string, ParsedColor>; start: number; end: number };
+    const groups = new Map<number, Map<string, { text?: Side; background?: Side }>>();
+
+    for (const occurrence of findClassOccurrences(text)) {
+        const info = parseTailwindClass(occurrence.name);
+        if (!info || (info.type !== 'text' && info.type !== 'bg')) {
+            continue;
+        }
+        const colors = classColors(info);
+        if (!colors) {
+            continue;
+        }
+        const stacks = groups.get(occurrence.group) ?? new Map();
+        groups.set(occurrence.group, stacks);
+        const key = (info.variants ?? []).join(':');
+        const entry = stacks.get(key) ?? {};
+        stacks.set(key, entry);
+        entry[info.type === 'text' ? 'text' : 'background'] = { colors, start: occurrence.start, end: occurrence.end };
+    }
+
+    const pairs: ContrastPair[] = [];
+    for (const stacks of groups.values()) {
+        const base = stacks.get('') ?? {};
+        for (const [key, entry] of stacks) {
+            const textSide = entry.text ?? base.text;
+            const backgroundSide = entry.background ?? base.background;
+            if (!textSide || !backgroundSide) {
+                continue;
+            }
+            // dark:text-white dark:bg-black only applies in the .dark context, if there is one
+            const contextVariants = key.split(':').filter((variant) => detectedContexts.has(variant));
+            pairs.push({
+                start: textSide.start,
+                end: textSide.end,
+                text: textSide.colors,
+                background: backgroundSide.colors,
+                contexts: contextVariants.length > 0 ? contextVariants : undefined,
+            });
+        }
+    }
+
+    return pairs;
+}
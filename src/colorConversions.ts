@@ -0,0 +1,203 @@
+/**
+ * Conversions from sRGB (channels 0–1) into the other CSS color spaces. colorParser
+ * covers the opposite direction; these are used when a color has to be written back
+ * or compared perceptually.
+ */
+
+export type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+// Matrices from the CSS Color Module Level 4 sample code
+const LINEAR_SRGB_TO_XYZ_D65: Mat3 = [
+    [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+    [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+    [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const D65_TO_D50: Mat3 = [
+    [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+    [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+    [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+const XYZ_D65_TO_LINEAR_P3: Mat3 = [
+    [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+    [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+    [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+];
+const LINEAR_SRGB_TO_LMS: Mat3 = [
+    [0.4122214708, 0.5363325363, 0.0514459929],
+    [0.2119034982, 0.6806995451, 0.1073969566],
+    [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: Mat3 = [
+    [0.2104542553, 0.793617785, -0.0040720468],
+    [1.9779984951, -2.428592205, 0.4505937099],
+    [0.0259040371, 0.7827717662, -0.808675766],
+];
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+/**
+ * Returns [hue 0–360, saturation 0–100, lightness 0–100].
+ */
+export function srgbToHsl([red, green, blue]: Vec3): Vec3 {
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    const lightness = (max + min) / 2;
+    const delta = max - min;
+    if (delta === 0) {
+        return [0, 0, lightness * 100];
+    }
+    const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    return [hueOf(red, green, blue, max, delta), saturation * 100, lightness * 100];
+}
+
+/**
+ * Returns [hue 0–360, whiteness 0–100, blackness 0–100].
+ */
+export function srgbToHwb([red, green, blue]: Vec3): Vec3 {
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    const hue = max === min ? 0 : hueOf(red, green, blue, max, max - min);
+    return [hue, min * 100, (1 - max) * 100];
+}
+
+/**
+ * CIE Lab (D50, as used by CSS lab()).
+ */
+export function srgbToLab(rgb: Vec3): Vec3 {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const xyz = multiply(D65_TO_D50, multiply(LINEAR_SRGB_TO_XYZ_D65, rgb.map(linearizeSrgb) as Vec3));
+    const [fx, fy, fz] = xyz.map((value, i) => {
+        const scaled = value / D50_WHITE[i];
+        return scaled > epsilon ? Math.cbrt(scaled) : (kappa * scaled + 16) / 116;
+    });
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function srgbToLch(rgb: Vec3): Vec3 {
+    return toPolar(srgbToLab(rgb));
+}
+
+export function srgbToOklab(rgb: Vec3): Vec3 {
+    const lms = multiply(LINEAR_SRGB_TO_LMS, rgb.map(linearizeSrgb) as Vec3).map(Math.cbrt) as Vec3;
+    return multiply(LMS_TO_OKLAB, lms);
+}
+
+export function srgbToOklch(rgb: Vec3): Vec3 {
+    return toPolar(srgbToOklab(rgb));
+}
+
+export function srgbToDisplayP3(rgb: Vec3): Vec3 {
+    return multiply(XYZ_D65_TO_LINEAR_P3, multiply(LINEAR_SRGB_TO_XYZ_D65, rgb.map(linearizeSrgb) as Vec3))
+        .map(gammaEncode) as Vec3;
+}
+
+export function srgbToLinear(rgb: Vec3): Vec3 {
+    return rgb.map(linearizeSrgb) as Vec3;
+}
+
+function hueOf(red: number, green: number, blue: number, max: number, delta: number): number {
+    let hue: number;
+    if (max === red) {
+        hue = ((green - blue) / delta) % 6;
+    } else if (max === green) {
+        hue = (blue - red) / delta + 2;
+    } else {
+        hue = (red - green) / delta + 4;
+    }
+    return (hue * 60 + 360) % 360;
+}
+
+// Achromatic colors get hue 0 rather than NaN
+function toPolar([lightness, a, b]: Vec3): Vec3 {
+    const chroma = Math.sqrt(a * a + b * b);
+    const hue = chroma < 1e-4 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+    return [lightness, chroma, hue];
+}
+
+function multiply(matrix: Mat3, vector: Vec3): Vec3 {
+    return matrix.map((row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Vec3;
+}
+
+function linearizeSrgb(value: number): number {
+    const abs = Math.abs(value);
+    return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+function gammaEncode(value: number): number {
+    const abs = Math.abs(value);
+    return abs > 0.0031308 ? Math.sign(value) * (1.055 * abs ** (1 / 2.4) - 0.055) : 12.92 * value;
+}
+
+/**
+ * ΔEOK: Euclidean distance in OKLab, scaled by 100 so it reads like CIE ΔE
+ * (about 2 is a just-noticeable difference).
+ */
+export function deltaEOK(first: Vec3, second: Vec3): number {
+    const [l1, a1, b1] = srgbToOklab(first);
+    const [l2, a2, b2] = srgbToOklab(second);
+    return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2) * 100;
+}
+
+/**
+ * CIEDE2000 (ΔE00) between two sRGB colors, on CIE Lab with the default weights
+ * (kL = kC = kH = 1). About 1 is a just-noticeable difference.
+ */
+export function deltaE2000(first: Vec3, second: Vec3): number {
+    return deltaE2000Lab(srgbToLab(first), srgbToLab(second));
+}
+
+/**
+ * CIEDE2000 (ΔE00) between two CIE Lab colors.
+ */
+export function deltaE2000Lab([l1, a1, b1]: Vec3, [l2, a2, b2]: Vec3): number {
+    const toRadians = Math.PI / 180;
+
+    const meanChroma = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+    const g = 0.5 * (1 - Math.sqrt(meanChroma ** 7 / (meanChroma ** 7 + 25 ** 7)));
+    const [c1, h1] = toPrimedPolar(a1 * (1 + g), b1);
+    const [c2, h2] = toPrimedPolar(a2 * (1 + g), b2);
+
+    const deltaL = l2 - l1;
+    const deltaC = c2 - c1;
+    let deltaHue = 0;
+    if (c1 * c2 !== 0) {
+        deltaHue = h2 - h1;
+        if (deltaHue > 180) {
+            deltaHue -= 360;
+        } else if (deltaHue < -180) {
+            deltaHue += 360;
+        }
+    }
+    const deltaH = 2 * Math.sqrt(c1 * c2) * Math.sin((deltaHue / 2) * toRadians);
+
+    const meanL = (l1 + l2) / 2;
+    const meanC = (c1 + c2) / 2;
+    let meanHue = h1 + h2;
+    if (c1 * c2 !== 0) {
+        meanHue = Math.abs(h1 - h2) <= 180 ? meanHue / 2 : (meanHue + (meanHue < 360 ? 360 : -360)) / 2;
+    }
+
+    const t = 1
+        - 0.17 * Math.cos((meanHue - 30) * toRadians)
+        + 0.24 * Math.cos(2 * meanHue * toRadians)
+        + 0.32 * Math.cos((3 * meanHue + 6) * toRadians)
+        - 0.2 * Math.cos((4 * meanHue - 63) * toRadians);
+    const sL = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+    const sC = 1 + 0.045 * meanC;
+    const sH = 1 + 0.015 * meanC * t;
+    const rotation = -2 * Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7))
+        * Math.sin(60 * Math.exp(-(((meanHue - 275) / 25) ** 2)) * toRadians);
+
+    return Math.sqrt(
+        (deltaL / sL) ** 2 + (deltaC / sC) ** 2 + (deltaH / sH) ** 2 + rotation * (deltaC / sC) * (deltaH / sH)
+    );
+}
+
+// Chroma and hue in degrees, with hue 0 for achromatic colors as CIEDE2000 specifies
+function toPrimedPolar(a: number, b: number): [number, number] {
+    const chroma = Math.hypot(a, b);
+    const hue = chroma === 0 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+    return [chroma, hue];
+}
@@ -1,10 +1,38 @@
 import * as vscode from 'vscode';
-import { parseColorValue, toRgbaString, ParsedColor } from './colorParser';
-import { parseTailwindClass, resolveTailwindColor } from './tailwindParser';
+import { parseColorValue, toRgbaString, ParsedColor, ChannelSpace, applyChannelSpace, toChannelSpace } from './colorParser';
+import { parseTailwindClass, resolveTailwindClassColor } from './tailwindParser';
+import { DeclarationMap, resolveVariable } from './aliasResolver';
+import { findClassOccurrences } from './classDetector';
+import { extractStyleBlocks, STYLE_BLOCK_LANGUAGES, STYLESHEET_LANGUAGES } from './styleBlocks';
+import { findPreprocessorReferences, findSassMapEntries, toVarReferences } from './preprocessor';
+import { checkerboardDefs } from './swatchSvg';
+import { parseDesignTokens, TokenSetContexts } from './designTokens';
+import { resolveRuleContext, RuleContext } from './selectorContexts';
+import { parseCss, blankComments, walkDeclarations, findLineStarts, lineIndexAt, CssNode, CssStylesheet } from './cssParser';
 
 export interface ContextColor {
     context: string;
     color: ParsedColor;
+    chain?: string[]; // set for aliases, e.g. ['--button-bg', '--blue-600']
+}
+
+// A variable definition's name and value, as document offsets
+interface VariableDefinition {
+    name: string;
+    start: number;
+    valueStart: number;
+    valueEnd: number;
+}
+
+/**
+ * Where a variable is declared: the file, the 0-based line and column of its name, and
+ * the context ('global', 'light', 'dark', …) the declaration belongs to.
+ */
+export interface DefinitionLocation {
+    fileName: string;
+    line: number;
+    character: number;
+    context: string;
 }
 
 interface ColorDecoration {
@@ -16,111 +44,193 @@ interface ColorDecoration {
 interface ColorWithContext {
     color: ParsedColor;
     context: string; // e.g., 'light', 'dark', or 'global'
+    chain?: string[]; // set when the color was resolved through var() aliases
 }
 
 export class ColorDecorationProvider {
     private decorations: Map<string, ColorDecoration[]> = new Map();
     private globalColorVariables: Map<string, ParsedColor> = new Map(); // Global registry of all color variables
+    private variableValues: Map<string, string> = new Map(); // Raw value of every variable for the current mode (e.g. --opacity: 0.5)
     private contextualColorVariables: Map<string, Map<string, ColorWithContext>> = new Map(); // varName -> context -> color
     private decorationCache: Map<string, vscode.TextEditorDecorationType> = new Map(); // LRU cache: decorations by color string
     private readonly MAX_CACHE_SIZE = 100; // Limit cache size to prevent memory leak
     private decorationStyle: string = vscode.workspace.getConfiguration('trueColors').get<string>('decorationStyle', 'highlight');
     private detectedContexts: Set<string> = new Set(); // Track detected contexts (.light, .dark, etc.)
+    private contextSources: Map<string, Set<string>> = new Map(); // context -> selectors and at-rules that declare it
+    private channelSpaceHints: Map<string, ChannelSpace> = new Map(); // varName -> wrapping function seen at usages, e.g. hsl(var(--x))
+    private declarations: DeclarationMap = new Map(); // varName -> context -> raw value, for resolving var() aliases
+    private aliasesDirty = false; // Set when declarations change; aliases are resolved on the next rebuild
+    private themeResets: Set<string> = new Set(); // Tailwind v4 namespaces reset in @theme, e.g. '--color-'
+    private sawTailwindV4 = false; // Any scanned file used @theme or @import "tailwindcss"
+    private customVariants: Set<string> = new Set(); // Tailwind v4 @custom-variant names
+    private definitionLocations: Map<string, DefinitionLocation[]> = new Map(); // varName -> every declaration
 
     /**
-     * Scan CSS content for color variables and context (.light, .dark, etc.).
+     * Scan CSS content for color variables and context (.light, .dark, etc.). Contexts come
+     * from the enclosing rules' selectors and @media queries (see selectorContexts).
      * @param merge When true, merge into existing context/variables (for multi-file initial scan).
      *              When false/omitted, clear first (for single-file update on save/file change).
      */
     public scanCssContentForColors(fileName: string, content: string, options?: { merge?: boolean }): void {
         if (options?.merge !== true) {
-            this.detectedContexts.clear();
-            this.contextualColorVariables.clear();
+            this.clearRegistry();
         }
+        this.aliasesDirty = true;
 
-        const lines = content.split('\n');
-        let bracketDepth = 0;
-        const contextStack: Array<{name: string, depth: number}> = []; // Stack to track contexts with their depth
-        
-        // Pre-compile regex patterns outside loop for performance
-        const contextPattern = /\.([\w-]+)\s*\{/;
-        const dotsPattern = /\./g;
-        const cssVarPattern = /(--[\w-]+)\s*:\s*([^;]+);/g;
-        const openBracesPattern = /\{/g;
-        const closeBracesPattern = /\}/g;
-        
-        lines.forEach((line) => {
-            try {
-                // Check for class selector pattern: .className {
-                const contextMatch = line.match(contextPattern);
-                
-                if (contextMatch) {
-                    const contextName = contextMatch[1];
-                    // Count dots in the line - if only one, it's a simple selector
-                    const dots = (line.match(dotsPattern) || []).length;
-                    
-                    if (dots === 1) {
-                        // This is a single class selector like .light or .dark
-                        this.detectedContexts.add(contextName);
-                        // Add to context stack with current depth
-                        contextStack.push({ name: contextName, depth: bracketDepth });
-                    }
-                }
-            } catch (error) {
-                // Skip this line if context detection fails
+        // One parse serves every pass; the regex passes below read `code`, which has
+        // comments blanked so commented-out declarations are not indexed
+        const stylesheet = parseCss(content);
+        const code = blankComments(content, stylesheet);
+
+        // Tailwind v4: @theme blocks and `--color-*: initial` namespace resets
+        if (/@theme\b|@import\s+(?:url\()?["']tailwindcss["']/.test(code)) {
+            this.sawTailwindV4 = true;
+        }
+        const themeResetPattern = /(--(?:[\w-]+-)?)\*\s*:\s*initial\b/g;
+        let reset;
+        while ((reset = themeResetPattern.exec(code)) !== null) {
+            this.themeResets.add(reset[1]);
+        }
+        const customVariantPattern = /@custom-variant\s+([\w-]+)/g;
+        let customVariant;
+        while ((customVariant = customVariantPattern.exec(code)) !== null) {
+            this.customVariants.add(customVariant[1]);
+        }
+
+        // Record how channel-list variables are consumed (hsl(var(--x)) etc.) so their
+        // definitions are read in the right color space
+        const wrappedUsagePattern = /(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\s*\(\s*var\s*\(\s*(--[\w-]+)/gi;
+        let usage;
+        while ((usage = wrappedUsagePattern.exec(code)) !== null) {
+            const channelSpace = toChannelSpace(usage[1]);
+            if (channelSpace) {
+                this.channelSpaceHints.set(usage[2], channelSpace);
             }
-            
-            // Determine current context based on the stack
-            const currentContext = contextStack.length > 0 
-                ? contextStack[contextStack.length - 1].name 
-                : 'global';
-            
-            try {
-                // Find CSS variables in this line BEFORE updating bracket depth
-                // Reset lastIndex for global regex reuse
-                cssVarPattern.lastIndex = 0;
-                let match;
-                
-                while ((match = cssVarPattern.exec(line)) !== null) {
-                    const varName = match[1];
-                    const value = match[2].trim();
-                    const color = parseColorValue(value);
+        }
 
-                    if (color) {
-                        // Store with context information
-                        if (!this.contextualColorVariables.has(varName)) {
-                            this.contextualColorVariables.set(varName, new Map());
-                        }
-                        const contexts = this.contextualColorVariables.get(varName);
-                        if (contexts) {
-                            contexts.set(currentContext, { color, context: currentContext });
+        const lineStarts = findLineStarts(content);
+        const locate = (offset: number) => {
+            const line = lineIndexAt(lineStarts, offset);
+            return { line, character: offset - lineStarts[line] };
+        };
+
+        // Sass maps may span lines: $colors: (primary: #4f46e5, …) → $colors.primary
+        for (const entry of findSassMapEntries(code)) {
+            this.recordDeclaration(entry.name, 'global', entry.value);
+            this.recordLocation(entry.name, { fileName, ...locate(entry.offset), context: 'global' });
+        }
+
+        // Each rule's selector or @media query sets the context of its declarations;
+        // rules that name none (`:root`, `.card`, `@layer base`) inherit their parent's
+        const visit = (nodes: CssNode[], parent: RuleContext) => {
+            for (const node of nodes) {
+                if (node.type === 'rule') {
+                    visit(node.children, resolveRuleContext(node, parent));
+                } else if (/^--[\w-]+$/.test(node.property)) {
+                    // `.light, .dark { … }` declares the value in both contexts
+                    const { contexts, source } = parent;
+                    for (const context of contexts) {
+                        if (context !== 'global') {
+                            this.detectedContexts.add(context);
+                            if (source) {
+                                this.contextSources.set(context, (this.contextSources.get(context) ?? new Set()).add(source));
+                            }
                         }
-                        
-                        // Also update global registry with last seen value
-                        this.globalColorVariables.set(varName, color);
+                        this.recordDeclaration(node.property, context, node.value);
+                        this.recordLocation(node.property, { fileName, ...locate(node.start), context });
                     }
+                } else if (/^[$@]/.test(node.property) && node.value && !node.value.startsWith('(')) {
+                    // Preprocessor variables are lexically scoped, not cascaded, so they are global
+                    this.recordDeclaration(node.property, 'global', node.value);
+                    this.recordLocation(node.property, { fileName, ...locate(node.start), context: 'global' });
                 }
-            } catch (error) {
-                // Skip this line if variable parsing fails
             }
-            
-            // Count braces and update depth AFTER processing variables
-            const openBraces = (line.match(openBracesPattern) || []).length;
-            const closeBraces = (line.match(closeBracesPattern) || []).length;
-            
-            bracketDepth += openBraces;
-            
-            // Remove contexts from stack when their closing brace is reached
-            for (let i = 0; i < closeBraces; i++) {
-                bracketDepth = Math.max(0, bracketDepth - 1); // Prevent negative depth in malformed CSS
-                // Pop contexts that were opened at this depth or deeper
-                while (contextStack.length > 0 && contextStack[contextStack.length - 1].depth >= bracketDepth) {
-                    contextStack.pop();
-                }
+        };
+        visit(stylesheet.children, { contexts: ['global'] });
+    }
+    
+    /**
+     * Add the color tokens of a DTCG or Tokens Studio JSON file to the registry, like a
+     * stylesheet declaring them as custom properties. Token sets other than global
+     * become contexts. `merge` works as in scanCssContentForColors.
+     */
+    public scanDesignTokenContent(
+        fileName: string,
+        content: string,
+        source: { setName: string; setContexts: TokenSetContexts },
+        options?: { merge?: boolean }
+    ): void {
+        if (options?.merge !== true) {
+            this.clearRegistry();
+        }
+        this.aliasesDirty = true;
+
+        const lineStarts = findLineStarts(content);
+
+        for (const token of parseDesignTokens(content, source.setName, source.setContexts)) {
+            if (token.context !== 'global') {
+                this.detectedContexts.add(token.context);
             }
-        });
+            this.recordDeclaration(token.name, token.context, token.value);
+
+            const line = lineIndexAt(lineStarts, token.keyStart);
+            this.recordLocation(token.name, { fileName, line, character: token.keyStart - lineStarts[line], context: token.context });
+        }
+    }
+
+    private clearRegistry(): void {
+        this.detectedContexts.clear();
+        this.contextSources.clear();
+        this.contextualColorVariables.clear();
+        this.channelSpaceHints.clear();
+        this.declarations.clear();
+        this.themeResets.clear();
+        this.sawTailwindV4 = false;
+        this.customVariants.clear();
+        this.definitionLocations.clear();
+    }
+
+    private recordDeclaration(varName: string, context: string, rawValue: string): void {
+        // $x / @x / #{$x} references become var() so they resolve like aliases
+        const value = toVarReferences(rawValue);
+        const color = parseColorValue(value, this.channelSpaceHints.get(varName));
+
+        // Keep every raw value (not only colors) so aliases like
+        // rgb(var(--c) / var(--opacity)) can be substituted later
+        // Re-inserting keeps each variable's contexts in source order of their last
+        // declaration, which 'auto' mode reads to pick the value defined last
+        if (!this.declarations.has(varName)) {
+            this.declarations.set(varName, new Map());
+        }
+        const definitions = this.declarations.get(varName);
+        definitions?.delete(context);
+        definitions?.set(context, value);
+
+        if (color) {
+            // Store with context information
+            if (!this.contextualColorVariables.has(varName)) {
+                this.contextualColorVariables.set(varName, new Map());
+            }
+            const contexts = this.contextualColorVariables.get(varName);
+            if (contexts) {
+                contexts.set(context, { color, context });
+            }
+            
+            // Also update global registry with last seen value
+            this.globalColorVariables.set(varName, color);
+        }
     }
     
+    private recordLocation(varName: string, location: DefinitionLocation): void {
+        const locations = this.definitionLocations.get(varName) ?? [];
+        // A file can be scanned again by the one-off merge in updateDecorations
+        if (locations.some((l) => l.fileName === location.fileName && l.line === location.line && l.character === location.character && l.context === location.context)) {
+            return;
+        }
+        locations.push(location);
+        this.definitionLocations.set(varName, locations);
+    }
+
     public scanCssFileForColors(document: vscode.TextDocument): void {
         const text = document.getText();
         this.scanCssContentForColors(document.fileName, text);
@@ -128,13 +238,12 @@ export class ColorDecorationProvider {
 
     public updateDecorations(document: vscode.TextDocument): void {
         const text = document.getText();
-        const lines = text.split('\n');
 
         // If the global registry is empty (e.g. extension just activated on a CSS file
         // before the workspace scan completed), do a one-off merge scan so decorations
         // appear without wiping context data contributed by other CSS files.
-        if (this.globalColorVariables.size === 0 && document.languageId === 'css') {
-            const content = document.getText();
+        if (this.globalColorVariables.size === 0 && (STYLESHEET_LANGUAGES.has(document.languageId) || STYLE_BLOCK_LANGUAGES.has(document.languageId))) {
+            const content = STYLESHEET_LANGUAGES.has(document.languageId) ? document.getText() : extractStyleBlocks(document.getText());
             this.scanCssContentForColors(document.fileName, content, { merge: true });
             const config = vscode.workspace.getConfiguration('trueColors');
             const mode = config.get<string>('colorMode', 'auto');
@@ -155,35 +264,28 @@ export class ColorDecorationProvider {
         this.clearDecorations(document.uri.toString());
         const decorations: ColorDecoration[] = [];
 
+        // Stylesheets and <style> blocks are parsed, so definitions spanning lines or
+        // sharing a minified line are found and commented-out code is not decorated
+        const styleText = STYLESHEET_LANGUAGES.has(document.languageId)
+            ? text
+            : STYLE_BLOCK_LANGUAGES.has(document.languageId) ? extractStyleBlocks(text) : undefined;
+        const stylesheet = styleText !== undefined ? parseCss(styleText) : undefined;
+        const lines = (stylesheet ? blankComments(text, stylesheet) : text).split('\n');
+
         // Pre-compile regex patterns outside loops for performance
-        const cssVarPattern2 = /(--[\w-]+)\s*:\s*([^;]+);/g;
-        const varPattern = /(?:var\((--[\w-]+)|(?:rgba?|hsla?)\s*\(\s*var\s*\(\s*(--[\w-]+))\s*\)/g;
+        const varPattern = /(?:var\((--[\w-]+)|(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\s*\(\s*var\s*\(\s*(--[\w-]+))\s*\)/g;
 
         // Now add variable name decorations for CSS definitions
-        lines.forEach((line, lineIndex) => {
-            cssVarPattern2.lastIndex = 0;
-            let match;
-            
-            while ((match = cssVarPattern2.exec(line)) !== null) {
-                try {
-                    const varName = match[1];
-                    const value = match[2].trim();
-                    const color = this.globalColorVariables.get(varName);
-
-                    if (color) {
-                        const varNameStart = match.index;
-                        const varNameRange = new vscode.Range(lineIndex, varNameStart, lineIndex, varNameStart + varName.length);
-                        decorations.push({ decoration: this.createDecoration(color), range: varNameRange, color });
-
-                        const valueStart = match.index + match[0].indexOf(value);
-                        const valueRange = new vscode.Range(lineIndex, valueStart, lineIndex, valueStart + value.length);
-                        decorations.push({ decoration: this.createDecoration(color), range: valueRange, color });
-                    }
-                } catch (error) {
-                    continue;
-                }
+        for (const definition of stylesheet ? this.findParsedDefinitions(stylesheet) : this.findLineDefinitions(lines)) {
+            const color = this.globalColorVariables.get(definition.name);
+            if (color) {
+                const nameRange = new vscode.Range(document.positionAt(definition.start), document.positionAt(definition.start + definition.name.length));
+                decorations.push({ decoration: this.createDecoration(color), range: nameRange, color });
+
+                const valueRange = new vscode.Range(document.positionAt(definition.valueStart), document.positionAt(definition.valueEnd));
+                decorations.push({ decoration: this.createDecoration(color), range: valueRange, color });
             }
-        });
+        }
 
         // Second pass: Find all var(--variable-name) usages
         lines.forEach((line, lineIndex) => {
@@ -192,12 +294,14 @@ export class ColorDecorationProvider {
             
             while ((match = varPattern.exec(line)) !== null) {
                 try {
-                    const varName = match[1] || match[2];
+                    const varName = match[1] || match[3];
                     if (!varName) continue;
                     
-                    const color = this.globalColorVariables.get(varName);
+                    const variableColor = this.globalColorVariables.get(varName);
 
-                    if (color) {
+                    if (variableColor) {
+                        // hsl(var(--x)) reads a channel-list variable as HSL, rgb(var(--x)) as RGB, etc.
+                        const color = match[2] ? applyChannelSpace(variableColor, toChannelSpace(match[2])) : variableColor;
                         const varNameStart = match.index + match[0].indexOf(varName);
                         const range = new vscode.Range(lineIndex, varNameStart, lineIndex, varNameStart + varName.length);
                         decorations.push({ decoration: this.createDecoration(color), range, color });
@@ -206,55 +310,109 @@ export class ColorDecorationProvider {
                     continue;
                 }
             }
+
+            // SCSS/Sass/Less usages: $brand, tokens.$brand, map.get($colors, primary), @primary
+            for (const reference of findPreprocessorReferences(line)) {
+                const color = this.globalColorVariables.get(reference.name);
+                if (color) {
+                    const range = new vscode.Range(lineIndex, reference.start, lineIndex, reference.end);
+                    decorations.push({ decoration: this.createDecoration(color), range, color });
+                }
+            }
         });
 
-        // Third pass: Find Tailwind classes in TypeScript/React files
-        if (document.languageId === 'typescriptreact' || 
-            document.languageId === 'javascriptreact' ||
-            document.languageId === 'typescript' ||
-            document.languageId === 'javascript') {
-            
-            const stringPattern = /["']([^"']*(?:text-|bg-|border-|hover:|focus:)[^"']*)["']/g;
-            const whitespacePattern = /\s+/;
-            
-            lines.forEach((line, lineIndex) => {
-                let match;
-                while ((match = stringPattern.exec(line)) !== null) {
-                    const classString = match[1];
-                    const classStringStart = match.index + 1; // +1 to skip opening quote
-                    
-                    const classes = classString.split(whitespacePattern);
-                    
-                    for (const cls of classes) {
-                        if (!cls) continue;
-                        
-                        try {
-                            const clsStart = line.indexOf(cls, classStringStart);
-                            if (clsStart === -1) continue;
-                            
-                            const classInfo = parseTailwindClass(cls);
-                            if (classInfo) {
-                                const color = resolveTailwindColor(classInfo.colorName, this.globalColorVariables);
-                                if (color) {
-                                    const range = new vscode.Range(lineIndex, clsStart, lineIndex, clsStart + cls.length);
-                                    decorations.push({ 
-                                        decoration: this.createDecoration(color),
-                                        range,
-                                        color 
-                                    });
-                                }
-                            }
-                        } catch (error) {
-                            continue;
-                        }
+        // Third pass: Find Tailwind classes in class attributes, class functions and @apply
+        for (const occurrence of findClassOccurrences(text)) {
+            try {
+                const classInfo = parseTailwindClass(occurrence.name);
+                if (classInfo) {
+                    const color = resolveTailwindClassColor(classInfo, this.globalColorVariables, this.variableValues);
+                    if (color) {
+                        const range = new vscode.Range(document.positionAt(occurrence.start), document.positionAt(occurrence.end));
+                        decorations.push({ 
+                            decoration: this.createDecoration(color),
+                            range,
+                            color 
+                        });
                     }
                 }
-                stringPattern.lastIndex = 0;
-            });
+            } catch (error) {
+                continue;
+            }
+        }
+
+        this.applyDecorations(editor, decorations);
+    }
+
+    // Variable definitions of a parsed stylesheet, at any nesting depth
+    private findParsedDefinitions(stylesheet: CssStylesheet): VariableDefinition[] {
+        const definitions: VariableDefinition[] = [];
+        walkDeclarations(stylesheet.children, (declaration) => {
+            if (/^(?:--|\$|@)/.test(declaration.property)) {
+                const { property: name, start, valueStart, valueEnd } = declaration;
+                definitions.push({ name, start, valueStart, valueEnd });
+            }
+        });
+        return definitions;
+    }
+
+    // Variable definitions in other languages (CSS-in-JS, templates), one line at a time
+    private findLineDefinitions(lines: string[]): VariableDefinition[] {
+        const definitionPattern = /((?:--|\$|@)[\w-]+)\s*:\s*([^;{}]+);?/g;
+        const definitions: VariableDefinition[] = [];
+        let lineStart = 0;
+        for (const line of lines) {
+            definitionPattern.lastIndex = 0;
+            let match;
+            while ((match = definitionPattern.exec(line)) !== null) {
+                const value = match[2].trim();
+                const valueStart = lineStart + match.index + match[0].indexOf(value);
+                definitions.push({ name: match[1], start: lineStart + match.index, valueStart, valueEnd: valueStart + value.length });
+            }
+            lineStart += line.length + 1;
+        }
+        return definitions;
+    }
+
+    /**
+     * Decorate a design token JSON file: each color token's value, or the tokens its
+     * `{alias}` references point at, in the token's own context.
+     */
+    public updateDesignTokenDecorations(document: vscode.TextDocument, source: { setName: string; setContexts: TokenSetContexts }): void {
+        const editor = vscode.window.visibleTextEditors.find(
+            (e) => e.document.uri.toString() === document.uri.toString()
+        );
+        if (!editor) {
+            return;
         }
 
+        this.clearDecorations(document.uri.toString());
+        const decorations: ColorDecoration[] = [];
+        const colorIn = (varName: string, context: string) => {
+            const contexts = this.contextualColorVariables.get(varName);
+            return contexts?.get(context)?.color ?? contexts?.get('global')?.color ?? this.globalColorVariables.get(varName);
+        };
+        const decorate = (color: ParsedColor | null | undefined, start: number, end: number) => {
+            if (color) {
+                const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+                decorations.push({ decoration: this.createDecoration(color), range, color });
+            }
+        };
+
+        for (const token of parseDesignTokens(document.getText(), source.setName, source.setContexts)) {
+            if (token.references.length > 0) {
+                token.references.forEach((reference) => decorate(colorIn(reference.name, token.context), reference.start, reference.end));
+            } else {
+                decorate(this.contextualColorVariables.get(token.name)?.get(token.context)?.color ?? parseColorValue(token.value), token.valueStart, token.valueEnd);
+            }
+        }
+
+        this.applyDecorations(editor, decorations);
+    }
+
+    private applyDecorations(editor: vscode.TextEditor, decorations: ColorDecoration[]): void {
         // Store decorations for this document
-        this.decorations.set(document.uri.toString(), decorations);
+        this.decorations.set(editor.document.uri.toString(), decorations);
 
         // Group decorations by type for efficient application
         const decorationGroups = new Map<vscode.TextEditorDecorationType, vscode.Range[]>();
@@ -334,7 +492,7 @@ export class ColorDecorationProvider {
         const result = new Map<string, ContextColor[]>();
         this.contextualColorVariables.forEach((contexts, varName) => {
             result.set(varName, Array.from(contexts.entries())
-                .map(([ctx, cwc]) => ({ context: ctx, color: cwc.color }))
+                .map(([ctx, cwc]) => ({ context: ctx, color: cwc.color, chain: cwc.chain }))
                 .sort((a, b) => a.context.localeCompare(b.context)));
         });
         return result;
@@ -350,7 +508,7 @@ export class ColorDecorationProvider {
 
     private createColorIcon(color: string): vscode.Uri {
         const size = 16;
-        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}"><rect width="${size}" height="${size}" fill="${color}" stroke="#333" stroke-width="1" rx="2"/></svg>`;
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${checkerboardDefs}<rect width="${size}" height="${size}" fill="url(#tc-checker)" rx="2"/><rect width="${size}" height="${size}" fill="${color}" stroke="#333" stroke-width="1" rx="2"/></svg>`;
         return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
     }
 
@@ -360,9 +518,9 @@ export class ColorDecorationProvider {
         const totalW = n * segSize + (n - 1) * gap;
         const rects = colorStrings.map((cs, i) => {
             const x = i * (segSize + gap);
-            return `<rect x="${x}" y="0" width="${segSize}" height="${segSize}" rx="2" fill="${cs}"/><rect x="${x}" y="0" width="${segSize}" height="${segSize}" rx="2" fill="none" stroke="rgba(128,128,128,0.5)" stroke-width="1"/>`;
+            return `<rect x="${x}" y="0" width="${segSize}" height="${segSize}" rx="2" fill="url(#tc-checker)"/><rect x="${x}" y="0" width="${segSize}" height="${segSize}" rx="2" fill="${cs}"/><rect x="${x}" y="0" width="${segSize}" height="${segSize}" rx="2" fill="none" stroke="rgba(128,128,128,0.5)" stroke-width="1"/>`;
         }).join('');
-        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${totalW}" height="${segSize}" viewBox="0 0 ${totalW} ${segSize}">${rects}</svg>`;
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${totalW}" height="${segSize}" viewBox="0 0 ${totalW} ${segSize}">${checkerboardDefs}${rects}</svg>`;
         return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
     }
 
@@ -407,9 +565,51 @@ export class ColorDecorationProvider {
         return this.globalColorVariables;
     }
     
+    public getChannelSpaceHint(varName: string): ChannelSpace | undefined {
+        return this.channelSpaceHints.get(varName);
+    }
+
+    public getCustomVariants(): string[] {
+        return Array.from(this.customVariants);
+    }
+
+    public getThemeResets(): string[] {
+        return Array.from(this.themeResets);
+    }
+
+    /**
+     * Whether any scanned stylesheet looks like Tailwind v4 (@theme or @import "tailwindcss").
+     */
+    public usesTailwindV4(): boolean {
+        return this.sawTailwindV4;
+    }
+
+    /**
+     * Raw declared value of every custom property for the current mode, including
+     * non-color values such as `--opacity: 0.5` used by opacity modifiers.
+     */
+    public getVariableValues(): Map<string, string> {
+        return this.variableValues;
+    }
+
+    /**
+     * Every declaration of every variable (colors or not), across files and contexts.
+     */
+    public getDefinitionLocations(): Map<string, DefinitionLocation[]> {
+        return this.definitionLocations;
+    }
+
     public getDetectedContexts(): string[] {
         return Array.from(this.detectedContexts);
     }
+
+    /**
+     * The selectors and at-rules each detected context was found in, e.g.
+     * dark → ['.dark', '@media (prefers-color-scheme: dark)'].
+     */
+    public getContextSources(): Map<string, string[]> {
+        return new Map(Array.from(this.contextSources, ([context, sources]) => [context, Array.from(sources)]));
+    }
     
     public getColorForMode(varName: string, mode: string): ParsedColor | undefined {
         const contexts = this.contextualColorVariables.get(varName);
@@ -424,17 +624,89 @@ export class ColorDecorationProvider {
         return firstContext?.color;
     }
     
+    /**
+     * Resolve var() aliases (`--button-bg: var(--blue-600)`) against every context, once
+     * all files have been scanned. A context-specific definition anywhere in the chain
+     * produces a context-specific alias color, mirroring how the cascade resolves var().
+     */
+    private resolveAliases(): void {
+        // Drop colors resolved by a previous pass; literal definitions are kept
+        this.contextualColorVariables.forEach((contexts, varName) => {
+            contexts.forEach((cwc, ctx) => {
+                if (cwc.chain) {
+                    contexts.delete(ctx);
+                }
+            });
+            if (contexts.size === 0) {
+                this.contextualColorVariables.delete(varName);
+            }
+        });
+
+        const targetContexts = ['global', ...this.detectedContexts];
+
+        this.declarations.forEach((definitions, varName) => {
+            if (!Array.from(definitions.values()).some((value) => value.includes('var('))) {
+                return;
+            }
+
+            for (const context of targetContexts) {
+                if (this.contextualColorVariables.get(varName)?.has(context)) {
+                    continue; // A literal color defined in this context wins
+                }
+
+                const resolved = resolveVariable(this.declarations, varName, context);
+                if (!resolved || (context !== 'global' && !resolved.contextSpecific)) {
+                    continue;
+                }
+
+                const target = resolved.chain[resolved.chain.length - 1];
+                const hint = this.channelSpaceHints.get(varName) ?? this.channelSpaceHints.get(target);
+                const color = parseColorValue(resolved.text, hint);
+                if (!color) {
+                    continue;
+                }
+
+                if (!this.contextualColorVariables.has(varName)) {
+                    this.contextualColorVariables.set(varName, new Map());
+                }
+                this.contextualColorVariables.get(varName)?.set(context, { color, context, chain: resolved.chain });
+            }
+        });
+
+        this.aliasesDirty = false;
+    }
+
     public rebuildGlobalVariablesForMode(mode: string): void {
+        if (this.aliasesDirty) {
+            this.resolveAliases();
+        }
+
         // Rebuild global color variables based on selected mode
         this.globalColorVariables.clear();
+        this.variableValues.clear();
+
+        this.declarations.forEach((definitions, varName) => {
+            const values = Array.from(definitions.values());
+            const value = mode === 'auto'
+                ? values[values.length - 1]
+                : definitions.get(mode) ?? definitions.get('global') ?? values[0];
+            if (value !== undefined) {
+                this.variableValues.set(varName, value);
+            }
+        });
         
         this.contextualColorVariables.forEach((contexts, varName) => {
             let selectedColor: ParsedColor | undefined;
             
             if (mode === 'auto') {
-                // Use last defined (current behavior)
+                // Use the context declared last in source order; alias colors resolved
+                // into other contexts are only a fallback
+                const declared = Array.from(this.declarations.get(varName)?.keys() ?? []).reverse();
+                const lastDeclared = declared.find((context) => contexts.has(context));
                 const allColors = Array.from(contexts.values());
-                selectedColor = allColors[allColors.length - 1]?.color;
+                selectedColor = lastDeclared !== undefined
+                    ? contexts.get(lastDeclared)?.color
+                    : allColors[allColors.length - 1]?.color;
             } else {
                 // Use specific mode (light or dark)
                 const contextColor = contexts.get(mode);
@@ -0,0 +1,186 @@
+import { ParsedColor, ColorFormat, ChannelSpace } from './colorParser';
+import { namedColors } from './namedColors';
+import {
+    Vec3,
+    srgbToHsl,
+    srgbToHwb,
+    srgbToLab,
+    srgbToLch,
+    srgbToOklab,
+    srgbToOklch,
+    srgbToDisplayP3,
+    srgbToLinear,
+} from './colorConversions';
+
+/**
+ * An sRGB color with channels and alpha in 0–1, as produced by a color picker.
+ */
+export interface RgbaColor {
+    red: number;
+    green: number;
+    blue: number;
+    alpha: number;
+}
+
+type FunctionFormat = 'rgb' | 'hsl' | 'hwb' | 'lab' | 'lch' | 'oklab' | 'oklch';
+
+// Offered after the original notation, in this order
+const presentationFormats: ColorFormat[] = ['hex', 'rgb', 'hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch', 'color'];
+
+/**
+ * Writes a color in the same notation as an existing value: bare channels stay bare
+ * channels in the same space (`37 99 235 / 0.5`, `222.2 47.4% 11.2%`), hex keeps its
+ * length and case, and functions keep their name and legacy comma syntax.
+ */
+export function formatColorLike(color: RgbaColor, original: ParsedColor): string {
+    const text = original.originalText.trim();
+    const format = original.format ?? 'channels';
+
+    switch (format) {
+        case 'channels': {
+            const space = original.channelSpace ?? 'rgb';
+            const alpha = color.alpha < 1 || text.includes('/') ? ` / ${formatNumber(color.alpha, 3)}` : '';
+            return formatComponents(color, space).join(' ') + alpha;
+        }
+        case 'hex':
+            return formatHex(color, text);
+        case 'named':
+            return namedColorFor(color) ?? formatHex(color, '');
+        case 'color':
+            return formatColorFunction(color, text.match(/^color\(\s*([\w-]+)/i)?.[1].toLowerCase());
+        default: {
+            const functionName = text.match(/^([a-z]+)\(/i)?.[1] ?? format;
+            return formatFunction(color, format, functionName, text.includes(','));
+        }
+    }
+}
+
+/**
+ * Writes a color in the canonical modern syntax of a notation.
+ */
+export function formatColorAs(color: RgbaColor, format: ColorFormat, channelSpace: ChannelSpace = 'rgb'): string {
+    switch (format) {
+        case 'channels': {
+            const alpha = color.alpha < 1 ? ` / ${formatNumber(color.alpha, 3)}` : '';
+            return formatComponents(color, channelSpace).join(' ') + alpha;
+        }
+        case 'hex':
+            return formatHex(color, '');
+        case 'named':
+            return namedColorFor(color) ?? formatHex(color, '');
+        case 'color':
+            return formatColorFunction(color, 'display-p3');
+        default:
+            return formatFunction(color, format, format, false);
+    }
+}
+
+/**
+ * The texts offered by a color picker for an existing value: its own notation first,
+ * then conversions to every other notation, without duplicates.
+ */
+export function colorPresentations(color: RgbaColor, original?: ParsedColor): string[] {
+    const presentations = original ? [formatColorLike(color, original)] : [];
+    for (const format of presentationFormats) {
+        presentations.push(formatColorAs(color, format));
+    }
+    const named = namedColorFor(color);
+    if (named) {
+        presentations.push(named);
+    }
+    return Array.from(new Set(presentations));
+}
+
+function formatFunction(color: RgbaColor, format: FunctionFormat, functionName: string, legacy: boolean): string {
+    const components = formatComponents(color, format);
+    const alpha = formatNumber(color.alpha, 3);
+
+    // Only rgb() and hsl() have a comma-separated form
+    if (legacy && (format === 'rgb' || format === 'hsl')) {
+        const withAlpha = color.alpha < 1 || functionName.toLowerCase().endsWith('a');
+        return `${functionName}(${components.join(', ')}${withAlpha ? `, ${alpha}` : ''})`;
+    }
+    return `${functionName}(${components.join(' ')}${color.alpha < 1 ? ` / ${alpha}` : ''})`;
+}
+
+function formatComponents(color: RgbaColor, space: ChannelSpace): string[] {
+    const rgb: Vec3 = [color.red, color.green, color.blue];
+    switch (space) {
+        case 'rgb':
+            return rgb.map((value) => String(Math.round(clamp(value) * 255)));
+        case 'hsl': {
+            const [hue, saturation, lightness] = srgbToHsl(rgb);
+            return [formatNumber(hue, 1), `${formatNumber(saturation, 1)}%`, `${formatNumber(lightness, 1)}%`];
+        }
+        case 'hwb': {
+            const [hue, whiteness, blackness] = srgbToHwb(rgb);
+            return [formatNumber(hue, 1), `${formatNumber(whiteness, 1)}%`, `${formatNumber(blackness, 1)}%`];
+        }
+        case 'lab':
+            return srgbToLab(rgb).map((value) => formatNumber(value, 2));
+        case 'lch':
+            return srgbToLch(rgb).map((value) => formatNumber(value, 2));
+        case 'oklab':
+            return srgbToOklab(rgb).map((value) => formatNumber(value, 4));
+        case 'oklch': {
+            const [lightness, chroma, hue] = srgbToOklch(rgb);
+            return [formatNumber(lightness, 4), formatNumber(chroma, 4), formatNumber(hue, 2)];
+        }
+    }
+}
+
+function formatColorFunction(color: RgbaColor, space: string | undefined): string {
+    const rgb: Vec3 = [color.red, color.green, color.blue];
+    let values: Vec3;
+    let spaceName: string;
+    if (space === 'display-p3') {
+        values = srgbToDisplayP3(rgb);
+        spaceName = space;
+    } else if (space === 'srgb-linear') {
+        values = srgbToLinear(rgb);
+        spaceName = space;
+    } else {
+        // Other predefined spaces are written back as sRGB
+        values = rgb;
+        spaceName = 'srgb';
+    }
+    const alpha = color.alpha < 1 ? ` / ${formatNumber(color.alpha, 3)}` : '';
+    return `color(${spaceName} ${values.map((value) => formatNumber(value, 4)).join(' ')}${alpha})`;
+}
+
+function formatHex(color: RgbaColor, original: string): string {
+    const bytes = [color.red, color.green, color.blue].map((value) => Math.round(clamp(value) * 255));
+    const originalDigits = original.replace('#', '');
+    if (color.alpha < 1 || originalDigits.length === 4 || originalDigits.length === 8) {
+        bytes.push(Math.round(clamp(color.alpha) * 255));
+    }
+
+    let hex = bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+    // Keep the short form (#fff) when the author used it and the color allows it
+    if ((originalDigits.length === 3 || originalDigits.length === 4) && /^(?:(.)\1)+$/.test(hex)) {
+        hex = hex.replace(/(.)\1/g, '$1');
+    }
+    if (originalDigits && originalDigits === originalDigits.toUpperCase() && /[A-F]/.test(originalDigits)) {
+        hex = hex.toUpperCase();
+    }
+    return `#${hex}`;
+}
+
+function namedColorFor(color: RgbaColor): string | undefined {
+    if (color.alpha < 1) {
+        return undefined;
+    }
+    const [red, green, blue] = [color.red, color.green, color.blue].map((value) => Math.round(clamp(value) * 255));
+    return Object.keys(namedColors).find((name) => {
+        const named = namedColors[name];
+        return named.r === red && named.g === green && named.b === blue;
+    });
+}
+
+function formatNumber(value: number, digits: number): string {
+    return String(Number(value.toFixed(digits)));
+}
+
+function clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
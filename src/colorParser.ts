@@ -1,50 +1,489 @@
+import { namedColors } from './namedColors';
+
+/**
+ * The notation a color was written in. Kept alongside the resolved sRGB values so
+ * callers can show (and later re-emit) the value the way the author wrote it.
+ */
+export type ColorFormat =
+    | 'channels'
+    | 'hex'
+    | 'named'
+    | 'rgb'
+    | 'hsl'
+    | 'hwb'
+    | 'lab'
+    | 'lch'
+    | 'oklab'
+    | 'oklch'
+    | 'color';
+
+/**
+ * The color function a bare channel list (e.g. `222.2 47.4% 11.2%`) is meant to be
+ * wrapped in, as in `hsl(var(--primary))`.
+ */
+export type ChannelSpace = 'rgb' | 'hsl' | 'hwb' | 'lab' | 'lch' | 'oklab' | 'oklch';
+
 export interface ParsedColor {
     red: number;
     green: number;
     blue: number;
     alpha?: number;
     originalText: string;
+    format?: ColorFormat;
+    channelSpace?: ChannelSpace; // only set when format is 'channels'
 }
 
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+// Matrices from the CSS Color Module Level 4 sample code
+const XYZ_D65_TO_LINEAR_SRGB: Mat3 = [
+    [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+    [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+    [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+const D50_TO_D65: Mat3 = [
+    [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+    [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+    [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const LINEAR_P3_TO_XYZ: Mat3 = [
+    [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+    [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+    [0, 0.04511338185890264, 1.043944368900976],
+];
+const LINEAR_A98_TO_XYZ: Mat3 = [
+    [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+    [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+    [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+const LINEAR_PROPHOTO_TO_XYZ_D50: Mat3 = [
+    [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+    [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+    [0, 0, 0.8251046025104602],
+];
+const LINEAR_REC2020_TO_XYZ: Mat3 = [
+    [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+    [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+    [0, 0.028072693049087428, 1.060985057710791],
+];
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+// Pre-compiled patterns
+const channelsPattern = /^\s*(\d+)\s+(\d+)\s+(\d+)(?:\s*\/\s*([\d.]+))?\s*$/;
+const channelTriplePattern = /^([+-]?[\d.]+(?:%|deg|grad|rad|turn)?)\s+([+-]?[\d.]+%?)\s+([+-]?[\d.]+%?)(?:\s*\/\s*[\d.]+%?)?$/i;
+const channelFunctionPattern = /^(rgb|hsl|hwb|lab|lch|oklab|oklch)a?$/i;
+const hexPattern = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const functionPattern = /^([a-z-]+)\(\s*([^()]*)\s*\)$/i;
+const numberPattern = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i;
+
 /**
- * Parses CSS custom property values in RGB/RGBA format
+ * Parses CSS custom property values into sRGB.
  * Supports formats like:
- * - "248 250 252" (RGB)
- * - "87 91 239 / 0.2" (RGBA with alpha)
+ * - "248 250 252" (RGB channels)
+ * - "87 91 239 / 0.2" (RGB channels with alpha)
+ * - "#6366f1", "#fff8" (hex)
+ * - "rebeccapurple", "transparent" (named)
+ * - "rgb()", "hsl()", "hwb()", "lab()", "lch()", "oklab()", "oklch()" and "color()"
+ *   in both the modern space-separated and legacy comma-separated syntax
+ * - "222.2 47.4% 11.2%" (HSL channels, inferred from the percentages)
+ *
+ * @param channelSpace When set, a bare channel list is interpreted in this space
+ *                     instead of being inferred from its shape.
  */
-export function parseColorValue(text: string): ParsedColor | null {
+export function parseColorValue(text: string, channelSpace?: ChannelSpace): ParsedColor | null {
+    const trimmed = text.trim();
+
+    if (channelSpace) {
+        const channels = parseChannelList(trimmed, channelSpace);
+        if (channels) {
+            return channels;
+        }
+    }
+
     // Match RGB format: "248 250 252" or RGBA format: "87 91 239 / 0.2"
-    const rgbPattern = /^\s*(\d+)\s+(\d+)\s+(\d+)(?:\s*\/\s*([\d.]+))?\s*$/;
-    const match = text.match(rgbPattern);
+    const match = trimmed.match(channelsPattern);
+    if (match) {
+        const red = parseInt(match[1], 10);
+        const green = parseInt(match[2], 10);
+        const blue = parseInt(match[3], 10);
+        const alpha = match[4] ? parseFloat(match[4]) : undefined;
+
+        // Validate RGB values are in range 0-255
+        if (red < 0 || red > 255 || green < 0 || green > 255 || blue < 0 || blue > 255) {
+            return null;
+        }
+
+        // Validate alpha if present (0-1)
+        if (alpha !== undefined && (alpha < 0 || alpha > 1)) {
+            return null;
+        }
+
+        return { red, green, blue, alpha, originalText: trimmed, format: 'channels', channelSpace: 'rgb' };
+    }
+
+    // shadcn/ui-style "H S% L%" channels
+    const triple = trimmed.match(channelTriplePattern);
+    if (triple && triple[2].endsWith('%') && triple[3].endsWith('%')) {
+        return parseChannelList(trimmed, 'hsl');
+    }
+
+    if (trimmed.startsWith('#')) {
+        return parseHexColor(trimmed);
+    }
+
+    const lower = trimmed.toLowerCase();
+    if (lower === 'transparent') {
+        return { red: 0, green: 0, blue: 0, alpha: 0, originalText: trimmed, format: 'named' };
+    }
+    // Own keys only: 'constructor' or '__proto__' must not reach Object.prototype
+    const named = Object.prototype.hasOwnProperty.call(namedColors, lower) ? namedColors[lower] : undefined;
+    if (named) {
+        return { red: named.r, green: named.g, blue: named.b, originalText: trimmed, format: 'named' };
+    }
+
+    return parseColorFunction(trimmed);
+}
+
+function parseChannelList(text: string, channelSpace: ChannelSpace): ParsedColor | null {
+    if (!channelTriplePattern.test(text)) {
+        return null;
+    }
+    const color = parseColorFunction(`${channelSpace}(${text})`);
+    if (!color) {
+        return null;
+    }
+    return { ...color, originalText: text, format: 'channels', channelSpace };
+}
+
+/**
+ * Maps a wrapping color function name (`rgba`, `hsl`, …) to its channel space.
+ */
+export function toChannelSpace(functionName: string): ChannelSpace | undefined {
+    const match = functionName.match(channelFunctionPattern);
+    return match ? (match[1].toLowerCase() as ChannelSpace) : undefined;
+}
+
+/**
+ * Re-reads a channel-list color in the space implied by the function wrapping it at a
+ * usage site, e.g. `hsl(var(--primary))` turns `222 47 11` into an HSL color.
+ * Colors that are not bare channel lists are returned unchanged.
+ */
+export function applyChannelSpace(color: ParsedColor, channelSpace: ChannelSpace | undefined): ParsedColor {
+    if (!channelSpace || color.format !== 'channels' || color.channelSpace === channelSpace) {
+        return color;
+    }
+    return parseChannelList(color.originalText, channelSpace) ?? color;
+}
 
+function parseHexColor(text: string): ParsedColor | null {
+    const match = text.match(hexPattern);
     if (!match) {
         return null;
     }
 
-    const red = parseInt(match[1], 10);
-    const green = parseInt(match[2], 10);
-    const blue = parseInt(match[3], 10);
-    const alpha = match[4] ? parseFloat(match[4]) : undefined;
+    let digits = match[1];
+    if (digits.length <= 4) {
+        // #rgb / #rgba → #rrggbb / #rrggbbaa
+        digits = digits.split('').map((d) => d + d).join('');
+    }
+
+    const red = parseInt(digits.substring(0, 2), 16);
+    const green = parseInt(digits.substring(2, 4), 16);
+    const blue = parseInt(digits.substring(4, 6), 16);
+    const alpha = digits.length === 8 ? roundAlpha(parseInt(digits.substring(6, 8), 16) / 255) : undefined;
+
+    return { red, green, blue, alpha, originalText: text, format: 'hex' };
+}
+
+interface Component {
+    value: number;
+    unit: string; // '', '%', 'deg', 'grad', 'rad', 'turn' or 'none'
+}
 
-    // Validate RGB values are in range 0-255
-    if (red < 0 || red > 255 || green < 0 || green > 255 || blue < 0 || blue > 255) {
+/**
+ * Splits the argument list of a color function into its three components and
+ * optional alpha, accepting both `a b c / d` and the legacy `a, b, c, d` syntax.
+ */
+function splitComponents(args: string): { components: Component[]; alpha?: Component } | null {
+    let parts: string[];
+    let alphaPart: string | undefined;
+
+    if (args.includes(',')) {
+        parts = args.split(',').map((p) => p.trim());
+        if (parts.length === 4) {
+            alphaPart = parts.pop();
+        }
+    } else {
+        const [channels, alpha, ...rest] = args.split('/');
+        if (rest.length > 0) {
+            return null;
+        }
+        parts = channels.trim().split(/\s+/);
+        alphaPart = alpha?.trim();
+    }
+
+    const components = parts.map(parseComponent);
+    if (components.some((c) => c === null)) {
         return null;
     }
 
-    // Validate alpha if present (0-1)
-    if (alpha !== undefined && (alpha < 0 || alpha > 1)) {
+    let alpha: Component | undefined;
+    if (alphaPart !== undefined) {
+        const parsed = parseComponent(alphaPart);
+        if (!parsed) {
+            return null;
+        }
+        alpha = parsed;
+    }
+
+    return { components: components as Component[], alpha };
+}
+
+function parseComponent(text: string): Component | null {
+    if (text.toLowerCase() === 'none') {
+        return { value: 0, unit: 'none' };
+    }
+    const match = text.match(numberPattern);
+    if (!match) {
         return null;
     }
+    return { value: parseFloat(match[1]), unit: (match[2] || '').toLowerCase() };
+}
+
+/**
+ * Resolves a component to a number, mapping percentages so that 100% equals `percentScale`.
+ */
+function toNumber(component: Component, percentScale: number): number {
+    return component.unit === '%' ? (component.value / 100) * percentScale : component.value;
+}
+
+function toDegrees(component: Component): number {
+    switch (component.unit) {
+        case 'rad':
+            return (component.value * 180) / Math.PI;
+        case 'grad':
+            return component.value * 0.9;
+        case 'turn':
+            return component.value * 360;
+        default:
+            return component.value;
+    }
+}
+
+function parseColorFunction(text: string): ParsedColor | null {
+    const match = text.match(functionPattern);
+    if (!match) {
+        return null;
+    }
+
+    const name = match[1].toLowerCase();
+    let args = match[2].trim();
+    let colorSpace: string | undefined;
+
+    if (name === 'color') {
+        const spaceMatch = args.match(/^([a-z0-9-]+)\s+(.*)$/i);
+        if (!spaceMatch) {
+            return null;
+        }
+        colorSpace = spaceMatch[1].toLowerCase();
+        args = spaceMatch[2];
+    }
+
+    const split = splitComponents(args);
+    if (!split || split.components.length !== 3) {
+        return null;
+    }
+
+    const [c1, c2, c3] = split.components;
+    let rgb: Vec3 | null;
+    let format: ColorFormat;
+
+    switch (name) {
+        case 'rgb':
+        case 'rgba':
+            rgb = [toNumber(c1, 255) / 255, toNumber(c2, 255) / 255, toNumber(c3, 255) / 255];
+            format = 'rgb';
+            break;
+        case 'hsl':
+        case 'hsla':
+            rgb = hslToSrgb(toDegrees(c1), toNumber(c2, 100) / 100, toNumber(c3, 100) / 100);
+            format = 'hsl';
+            break;
+        case 'hwb':
+            rgb = hwbToSrgb(toDegrees(c1), toNumber(c2, 100) / 100, toNumber(c3, 100) / 100);
+            format = 'hwb';
+            break;
+        case 'lab':
+            rgb = labToSrgb(toNumber(c1, 100), toNumber(c2, 125), toNumber(c3, 125));
+            format = 'lab';
+            break;
+        case 'lch':
+            rgb = labToSrgb(...lchToLab(toNumber(c1, 100), toNumber(c2, 150), toDegrees(c3)));
+            format = 'lch';
+            break;
+        case 'oklab':
+            rgb = oklabToSrgb(toNumber(c1, 1), toNumber(c2, 0.4), toNumber(c3, 0.4));
+            format = 'oklab';
+            break;
+        case 'oklch':
+            rgb = oklabToSrgb(...lchToLab(toNumber(c1, 1), toNumber(c2, 0.4), toDegrees(c3)));
+            format = 'oklch';
+            break;
+        case 'color':
+            rgb = predefinedToSrgb(colorSpace as string, [toNumber(c1, 1), toNumber(c2, 1), toNumber(c3, 1)]);
+            format = 'color';
+            break;
+        default:
+            return null;
+    }
+
+    if (!rgb || rgb.some((v) => !Number.isFinite(v))) {
+        return null;
+    }
+
+    let alpha: number | undefined;
+    if (split.alpha) {
+        alpha = roundAlpha(clamp(toNumber(split.alpha, 1), 0, 1));
+    }
 
     return {
-        red,
-        green,
-        blue,
+        red: toByte(rgb[0]),
+        green: toByte(rgb[1]),
+        blue: toByte(rgb[2]),
         alpha,
-        originalText: text.trim()
+        originalText: text,
+        format,
     };
 }
 
+function hslToSrgb(hue: number, saturation: number, lightness: number): Vec3 {
+    const h = ((hue % 360) + 360) % 360;
+    const s = clamp(saturation, 0, 1);
+    const l = clamp(lightness, 0, 1);
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        const a = s * Math.min(l, 1 - l);
+        return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    return [f(0), f(8), f(4)];
+}
+
+function hwbToSrgb(hue: number, whiteness: number, blackness: number): Vec3 {
+    const w = clamp(whiteness, 0, 1);
+    const b = clamp(blackness, 0, 1);
+    if (w + b >= 1) {
+        const gray = w / (w + b);
+        return [gray, gray, gray];
+    }
+    return hslToSrgb(hue, 1, 0.5).map((v) => v * (1 - w - b) + w) as Vec3;
+}
+
+function lchToLab(lightness: number, chroma: number, hue: number): Vec3 {
+    const radians = (hue * Math.PI) / 180;
+    const c = Math.max(0, chroma);
+    return [lightness, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+function labToSrgb(lightness: number, a: number, b: number): Vec3 {
+    const kappa = 24389 / 27;
+    const epsilon = 216 / 24389;
+    const f1 = (lightness + 16) / 116;
+    const f0 = a / 500 + f1;
+    const f2 = f1 - b / 200;
+
+    const x = f0 ** 3 > epsilon ? f0 ** 3 : (116 * f0 - 16) / kappa;
+    const y = lightness > kappa * epsilon ? f1 ** 3 : lightness / kappa;
+    const z = f2 ** 3 > epsilon ? f2 ** 3 : (116 * f2 - 16) / kappa;
+
+    const xyzD50: Vec3 = [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+    return xyzD65ToSrgb(multiply(D50_TO_D65, xyzD50));
+}
+
+function oklabToSrgb(lightness: number, a: number, b: number): Vec3 {
+    const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+    const linear: Vec3 = [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+    ];
+    return linear.map(gammaEncodeSrgb) as Vec3;
+}
+
+function predefinedToSrgb(space: string, values: Vec3): Vec3 | null {
+    switch (space) {
+        case 'srgb':
+            return values;
+        case 'srgb-linear':
+            return values.map(gammaEncodeSrgb) as Vec3;
+        case 'display-p3':
+            return xyzD65ToSrgb(multiply(LINEAR_P3_TO_XYZ, values.map(linearizeSrgb) as Vec3));
+        case 'a98-rgb':
+            return xyzD65ToSrgb(multiply(LINEAR_A98_TO_XYZ, values.map(linearizeA98) as Vec3));
+        case 'prophoto-rgb':
+            return xyzD65ToSrgb(multiply(D50_TO_D65, multiply(LINEAR_PROPHOTO_TO_XYZ_D50, values.map(linearizeProphoto) as Vec3)));
+        case 'rec2020':
+            return xyzD65ToSrgb(multiply(LINEAR_REC2020_TO_XYZ, values.map(linearizeRec2020) as Vec3));
+        case 'xyz':
+        case 'xyz-d65':
+            return xyzD65ToSrgb(values);
+        case 'xyz-d50':
+            return xyzD65ToSrgb(multiply(D50_TO_D65, values));
+        default:
+            return null;
+    }
+}
+
+function xyzD65ToSrgb(xyz: Vec3): Vec3 {
+    return multiply(XYZ_D65_TO_LINEAR_SRGB, xyz).map(gammaEncodeSrgb) as Vec3;
+}
+
+function multiply(matrix: Mat3, vector: Vec3): Vec3 {
+    return matrix.map((row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]) as Vec3;
+}
+
+function linearizeSrgb(value: number): number {
+    const abs = Math.abs(value);
+    return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+function gammaEncodeSrgb(value: number): number {
+    const abs = Math.abs(value);
+    return abs > 0.0031308 ? Math.sign(value) * (1.055 * abs ** (1 / 2.4) - 0.055) : 12.92 * value;
+}
+
+function linearizeA98(value: number): number {
+    return Math.sign(value) * Math.abs(value) ** (563 / 256);
+}
+
+function linearizeProphoto(value: number): number {
+    const abs = Math.abs(value);
+    return abs <= 16 / 512 ? value / 16 : Math.sign(value) * abs ** 1.8;
+}
+
+function linearizeRec2020(value: number): number {
+    const alpha = 1.09929682680944;
+    const beta = 0.018053968510807;
+    const abs = Math.abs(value);
+    return abs < beta * 4.5 ? value / 4.5 : Math.sign(value) * ((abs + alpha - 1) / alpha) ** (1 / 0.45);
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+// Out-of-gamut colors are clipped to the sRGB cube for display
+function toByte(value: number): number {
+    return Math.round(clamp(value, 0, 1) * 255);
+}
+
+function roundAlpha(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
 /**
  * Converts ParsedColor to CSS rgba() string
  */
@@ -52,4 +491,3 @@ export function toRgbaString(color: ParsedColor): string {
     const alpha = color.alpha !== undefined ? color.alpha : 1;
     return `rgba(${color.red}, ${color.green}, ${color.blue}, ${alpha})`;
 }
-
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { parseColorValue, ParsedColor, ChannelSpace } from './colorParser';
+import { colorPresentations, RgbaColor } from './colorFormatter';
+import { STYLESHEET_LANGUAGES } from './styleBlocks';
+
+// Languages whose built-in language service already shows pickers for CSS color literals
+const BUILT_IN_PICKER_LANGUAGES = new Set(['css', 'scss', 'less']);
+// Notations the built-in CSS picker handles; skipped there to avoid duplicate swatches
+const BUILT_IN_FORMATS = new Set(['hex', 'named', 'rgb', 'hsl']);
+
+/**
+ * Native color picker for variable definitions (`--x: 37 99 235;`, `$brand: #4f46e5;`)
+ * and color literals. Picking a color rewrites the value in the notation it was
+ * written in; the other notations are offered as conversions.
+ */
+export class ColorPickerProvider implements vscode.DocumentColorProvider {
+    constructor(private readonly getChannelSpaceHint: (varName: string) => ChannelSpace | undefined) {}
+
+    public provideDocumentColors(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.ColorInformation[]> {
+        const colors: vscode.ColorInformation[] = [];
+        const builtIn = BUILT_IN_PICKER_LANGUAGES.has(document.languageId);
+        const definitionPattern = /((?:--|\$|@)[\w-]+)\s*:\s*([^;{}]+);?/g;
+        const literalPattern = /#[0-9a-f]{3,8}\b|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)/gi;
+
+        for (let lineIndex = 0; lineIndex < document.lineCount; lineIndex++) {
+            if (token.isCancellationRequested) {
+                return colors;
+            }
+            const line = document.lineAt(lineIndex).text;
+            const covered: Array<[number, number]> = [];
+
+            definitionPattern.lastIndex = 0;
+            let match;
+            while ((match = definitionPattern.exec(line)) !== null) {
+                const value = match[2].trim();
+                const color = parseColorValue(value, this.getChannelSpaceHint(match[1]));
+                if (!color || (builtIn && BUILT_IN_FORMATS.has(color.format ?? ''))) {
+                    continue;
+                }
+                const start = match.index + match[0].indexOf(value, match[1].length);
+                covered.push([start, start + value.length]);
+                colors.push(this.toColorInformation(color, new vscode.Range(lineIndex, start, lineIndex, start + value.length)));
+            }
+
+            // Stylesheet literals outside definitions are left to the CSS language service
+            if (STYLESHEET_LANGUAGES.has(document.languageId)) {
+                continue;
+            }
+
+            literalPattern.lastIndex = 0;
+            while ((match = literalPattern.exec(line)) !== null) {
+                const start = match.index;
+                const end = start + match[0].length;
+                if (covered.some(([from, to]) => start < to && end > from)) {
+                    continue;
+                }
+                const color = parseColorValue(match[0]);
+                if (color) {
+                    colors.push(this.toColorInformation(color, new vscode.Range(lineIndex, start, lineIndex, end)));
+                }
+            }
+        }
+
+        return colors;
+    }
+
+    public provideColorPresentations(
+        color: vscode.Color,
+        context: { document: vscode.TextDocument; range: vscode.Range },
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.ColorPresentation[]> {
+        const { document, range } = context;
+        const text = document.getText(range);
+
+        // Re-read the value with the channel space of the variable it is assigned to
+        const prefix = document.lineAt(range.start.line).text.substring(0, range.start.character);
+        const varName = prefix.match(/((?:--|\$|@)[\w-]+)\s*:\s*$/)?.[1];
+        const original = parseColorValue(text, varName ? this.getChannelSpaceHint(varName) : undefined) ?? undefined;
+
+        const picked: RgbaColor = { red: color.red, green: color.green, blue: color.blue, alpha: color.alpha };
+        return colorPresentations(picked, original).map((label) => {
+            const presentation = new vscode.ColorPresentation(label);
+            presentation.textEdit = vscode.TextEdit.replace(range, label);
+            return presentation;
+        });
+    }
+
+    private toColorInformation(color: ParsedColor, range: vscode.Range): vscode.ColorInformation {
+        return new vscode.ColorInformation(
+            range,
+            new vscode.Color(color.red / 255, color.green / 255, color.blue / 255, color.alpha ?? 1)
+        );
+    }
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { ParsedColor } from './colorParser';
+import { formatColorAs } from './colorFormatter';
+import { resolveTailwindColor, listClassColorNames, findClassVariable } from './tailwindParser';
+import { ColorDecorationProvider, ContextColor } from './colorDecorationProvider';
+import { STYLESHEET_LANGUAGES } from './styleBlocks';
+import { TokenIndex } from './tokenIndex';
+
+// Usage counts are recounted in the background once they are older than this
+const USAGE_COUNT_TTL_MS = 10000;
+
+// `var(--` or `var(--brand-` right before the cursor
+const varPrefixPattern = /var\(\s*(--[\w-]*)$/;
+// `bg-`, `dark:hover:text-sl` or `!border-b-` at the start of a class, right before the cursor.
+// Multi-segment prefixes come first so `border-b-` is not read as `border-` + `b-`
+const classPrefixPattern = /(?:^|[\s"'`{(,])(?:[\w-]+:|\[[^\]\s]*\]:)*!?(border-[xysetrbl]|ring-offset|inset-ring|inset-shadow|text-shadow|drop-shadow|text|bg|border|from|to|via|ring|shadow|divide|decoration|placeholder|accent|caret|outline|fill|stroke)-([\w-]*)$/;
+
+/**
+ * Completions for `var(--…)` and Tailwind color classes (`bg-…`). Items use
+ * CompletionItemKind.Color so the suggest widget shows a swatch, list the value in
+ * every context, and are ranked by how often they are used in the workspace.
+ */
+export class ColorCompletionProvider implements vscode.CompletionItemProvider {
+    private usageCounts?: { variables: Map<string, number>; classColors: Map<string, number> };
+    private usageCountsTime = 0;
+
+    constructor(
+        private readonly decorationProvider: ColorDecorationProvider,
+        private readonly index: TokenIndex
+    ) {}
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const prefix = document.lineAt(position.line).text.substring(0, position.character);
+
+        const varMatch = prefix.match(varPrefixPattern);
+        if (varMatch) {
+            const range = new vscode.Range(position.translate(0, -varMatch[1].length), position);
+            const counts = await this.getUsageCounts(token);
+            return this.variableItems(range, counts.variables);
+        }
+
+        // In stylesheets, classes are only written after @apply
+        const classMatch = prefix.match(classPrefixPattern);
+        if (classMatch && (!STYLESHEET_LANGUAGES.has(document.languageId) || /@apply\b/.test(prefix))) {
+            const typed = classMatch[1].length + 1 + classMatch[2].length;
+            const range = new vscode.Range(position.translate(0, -typed), position);
+            const counts = await this.getUsageCounts(token);
+            return this.classItems(classMatch[1], range, counts.classColors);
+        }
+
+        return undefined;
+    }
+
+    private variableItems(range: vscode.Range, counts: Map<string, number>): vscode.CompletionItem[] {
+        const contextual = this.decorationProvider.getContextualColorsMap();
+        const items: vscode.CompletionItem[] = [];
+
+        this.decorationProvider.getVariableValues().forEach((value, varName) => {
+            if (!varName.startsWith('--')) {
+                return;
+            }
+            const color = this.decorationProvider.getGlobalColorVariables().get(varName);
+            const item = new vscode.CompletionItem(varName, color ? vscode.CompletionItemKind.Color : vscode.CompletionItemKind.Variable);
+            item.range = range;
+            item.detail = formatContexts(contextual.get(varName)) ?? value;
+            if (color) {
+                item.documentation = toSwatchString(color); // read by the suggest widget for the swatch
+            }
+            item.sortText = rankText(counts.get(varName), varName);
+            items.push(item);
+        });
+
+        return items;
+    }
+
+    private classItems(prefix: string, range: vscode.Range, counts: Map<string, number>): vscode.CompletionItem[] {
+        const customColorMap = this.decorationProvider.getGlobalColorVariables();
+        const contextual = this.decorationProvider.getContextualColorsMap();
+        const items: vscode.CompletionItem[] = [];
+
+        for (const colorName of listClassColorNames(customColorMap)) {
+            const color = resolveTailwindColor(colorName, customColorMap);
+            if (!color) {
+                continue;
+            }
+            const label = `${prefix}-${colorName}`;
+            const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Color);
+            item.range = range;
+            const varName = findClassVariable(colorName, contextual);
+            item.detail = (varName && formatContexts(contextual.get(varName))) || describeColor(color);
+            item.documentation = toSwatchString(color);
+            item.sortText = rankText(counts.get(colorName), label);
+            items.push(item);
+        }
+
+        return items;
+    }
+
+    // Counting walks the workspace index, so completions reuse recent counts
+    private async getUsageCounts(token: vscode.CancellationToken): Promise<{ variables: Map<string, number>; classColors: Map<string, number> }> {
+        const stale = Date.now() - this.usageCountsTime > USAGE_COUNT_TTL_MS;
+        if (stale) {
+            this.usageCountsTime = Date.now();
+            const counting = this.index.countUsages()
+                .then((counts) => {
+                    this.usageCounts = counts;
+                    return counts;
+                })
+                .catch(() => undefined);
+            if (!this.usageCounts && !token.isCancellationRequested) {
+                await counting;
+            }
+        }
+        return this.usageCounts ?? { variables: new Map(), classColors: new Map() };
+    }
+}
+
+// 'light: #fff · dark: #111' for variables defined in more than one context
+function formatContexts(contextColors: ContextColor[] | undefined): string | undefined {
+    if (!contextColors || contextColors.length === 0) {
+        return undefined;
+    }
+    return contextColors
+        .map(({ context, color }) => (contextColors.length === 1 ? color.originalText : `${context}: ${color.originalText}`))
+        .join(' · ');
+}
+
+// Palette colors carry no notation of their own ('red-500'); show them as hex
+function describeColor(color: ParsedColor): string {
+    if (color.format) {
+        return color.originalText;
+    }
+    return formatColorAs({ red: color.red / 255, green: color.green / 255, blue: color.blue / 255, alpha: color.alpha ?? 1 }, 'hex');
+}
+
+// The suggest widget only recognizes hex and integer rgb()/rgba() strings as swatches
+function toSwatchString(color: ParsedColor): string {
+    const [red, green, blue] = [color.red, color.green, color.blue].map((channel) => Math.round(channel));
+    return `rgba(${red}, ${green}, ${blue}, ${color.alpha ?? 1})`;
+}
+
+// Most used first, then alphabetical
+function rankText(count: number | undefined, label: string): string {
+    return `${String(999999 - Math.min(count ?? 0, 999999)).padStart(6, '0')}${label}`;
+}
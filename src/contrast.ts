@@ -0,0 +1,75 @@
+import { ParsedColor } from './colorParser';
+
+export type WcagLevel = 'AA-large' | 'AA' | 'AAA';
+
+// Minimum contrast ratios from WCAG 2.x success criteria 1.4.3 and 1.4.6
+export const WCAG_MINIMUMS: Record<WcagLevel, number> = {
+    'AA-large': 3,
+    AA: 4.5,
+    AAA: 7,
+};
+
+/**
+ * WCAG 2.x contrast ratio (1–21) of text over a background. Translucent colors are
+ * composited first: the text over the background, the background over white.
+ */
+export function wcagContrast(text: ParsedColor, background: ParsedColor): number {
+    const [bg, fg] = compositePair(text, background);
+    const textLuminance = relativeLuminance(fg);
+    const backgroundLuminance = relativeLuminance(bg);
+    const lighter = Math.max(textLuminance, backgroundLuminance);
+    const darker = Math.min(textLuminance, backgroundLuminance);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * APCA lightness contrast (Lc, roughly -108–106) of text over a background, following
+ * the APCA-W3 0.0.98G-4g constants. Positive values are dark text on a light
+ * background; negative values are light text on a dark background.
+ */
+export function apcaContrast(text: ParsedColor, background: ParsedColor): number {
+    const [bg, fg] = compositePair(text, background);
+    const textY = clampBlack(apcaLuminance(fg));
+    const backgroundY = clampBlack(apcaLuminance(bg));
+
+    if (Math.abs(backgroundY - textY) < 0.0005) {
+        return 0;
+    }
+
+    if (backgroundY > textY) {
+        const contrast = (backgroundY ** 0.56 - textY ** 0.57) * 1.14;
+        return contrast < 0.1 ? 0 : (contrast - 0.027) * 100;
+    }
+    const contrast = (backgroundY ** 0.65 - textY ** 0.62) * 1.14;
+    return contrast > -0.1 ? 0 : (contrast + 0.027) * 100;
+}
+
+type Rgb = [number, number, number]; // 0–255
+
+function compositePair(text: ParsedColor, background: ParsedColor): [Rgb, Rgb] {
+    const white: Rgb = [255, 255, 255];
+    const bg = composite(background, white);
+    return [bg, composite(text, bg)];
+}
+
+function composite(color: ParsedColor, under: Rgb): Rgb {
+    const alpha = color.alpha ?? 1;
+    return [color.red, color.green, color.blue].map((channel, i) => channel * alpha + under[i] * (1 - alpha)) as Rgb;
+}
+
+function relativeLuminance([red, green, blue]: Rgb): number {
+    const [r, g, b] = [red, green, blue].map((channel) => {
+        const value = channel / 255;
+        return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// APCA uses a simple 2.4 exponent instead of the piecewise sRGB curve
+function apcaLuminance([red, green, blue]: Rgb): number {
+    return 0.2126729 * (red / 255) ** 2.4 + 0.7151522 * (green / 255) ** 2.4 + 0.072175 * (blue / 255) ** 2.4;
+}
+
+function clampBlack(luminance: number): number {
+    return luminance > 0.022 ? luminance : luminance + (0.022 - luminance) ** 1.414;
+}
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { parseColorValue, ParsedColor, applyChannelSpace, toChannelSpace } from './colorParser';
+import {
+    resolveTailwindClassColor,
+    resolveOpacityModifier,
+    applyOpacity,
+    findClassVariable,
+    TailwindClassInfo,
+} from './tailwindParser';
+import { ColorDecorationProvider, ContextColor } from './colorDecorationProvider';
+import { findClassPairs, ContrastPair } from './classPairs';
+import { findPreprocessorReferences } from './preprocessor';
+import { extractStyleBlocks, STYLE_BLOCK_LANGUAGES, STYLESHEET_LANGUAGES } from './styleBlocks';
+import { parseCss, CssDeclaration, CssRule } from './cssParser';
+import { wcagContrast, apcaContrast, WCAG_MINIMUMS, WcagLevel } from './contrast';
+
+const wrappedVarPattern = /^(?:(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\(\s*)?var\(\s*(--[\w-]+)\s*(?:,[^()]*)?\)(?:\s*\))?$/i;
+const backgroundProperties = new Set(['background-color', 'background']);
+
+/**
+ * Reports text/background pairs whose contrast is below the configured WCAG level
+ * (`trueColors.contrastLevel`) or APCA minimum (`trueColors.apcaMinimumLc`) in any
+ * detected context. Pairs come from class lists containing both `text-*` and `bg-*`
+ * and from CSS rules setting `color` and `background` from tokens.
+ */
+export class ContrastDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('trueColors.contrast');
+    private contextualColors: Map<string, ContextColor[]> = new Map();
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public update(document: vscode.TextDocument): void {
+        const config = vscode.workspace.getConfiguration('trueColors');
+        const level = config.get<string>('contrastLevel', 'AA');
+        const apcaMinimum = config.get<number>('apcaMinimumLc', 0);
+        const wcagMinimum = level in WCAG_MINIMUMS ? WCAG_MINIMUMS[level as WcagLevel] : undefined;
+        if (wcagMinimum === undefined && apcaMinimum <= 0) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        this.contextualColors = this.decorationProvider.getContextualColorsMap();
+        const detectedContexts = new Set(this.decorationProvider.getDetectedContexts());
+        const classPairs = findClassPairs(document.getText(), (info) => this.classColors(info), detectedContexts);
+        const pairs = [...classPairs, ...this.findRulePairs(document)];
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const pair of pairs) {
+            const contexts = pair.contexts ?? Array.from(new Set([...pair.text.keys(), ...pair.background.keys()]));
+            for (const context of contexts) {
+                const text = colorInContext(pair.text, context);
+                const background = colorInContext(pair.background, context);
+                if (!text || !background) {
+                    continue;
+                }
+
+                const ratio = wcagContrast(text, background);
+                const lc = apcaContrast(text, background);
+                const failsWcag = wcagMinimum !== undefined && ratio < wcagMinimum;
+                const failsApca = apcaMinimum > 0 && Math.abs(lc) < apcaMinimum;
+                if (!failsWcag && !failsApca) {
+                    continue;
+                }
+
+                const where = context === 'global' ? '' : ` in .${context}`;
+                const wcagText = `${ratio.toFixed(2)}:1${failsWcag ? ` (WCAG ${level} needs ${wcagMinimum}:1)` : ''}`;
+                const apcaText = `APCA Lc ${lc.toFixed(1)}${failsApca ? ` (needs ${apcaMinimum})` : ''}`;
+                const range = new vscode.Range(document.positionAt(pair.start), document.positionAt(pair.end));
+                const diagnostic = new vscode.Diagnostic(
+                    range,
+                    `Low contrast${where}: ${wcagText}, ${apcaText}`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'True Colors';
+                diagnostic.code = 'contrast';
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    public clear(uri: vscode.Uri): void {
+        this.collection.delete(uri);
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Pairs `color` with `background`/`background-color` declared in the same CSS rule,
+     * when at least one of them comes from a token.
+     */
+    private findRulePairs(document: vscode.TextDocument): ContrastPair[] {
+        let css: string;
+        if (STYLESHEET_LANGUAGES.has(document.languageId)) {
+            css = document.getText();
+        } else if (STYLE_BLOCK_LANGUAGES.has(document.languageId)) {
+            css = extractStyleBlocks(document.getText());
+        } else {
+            return [];
+        }
+        const pairs: ContrastPair[] = [];
+        const visit = (rule: CssRule) => {
+            const declarations = rule.children.filter((node): node is CssDeclaration => node.type === 'declaration');
+            const color = declarations.filter((d) => d.property.toLowerCase() === 'color').pop();
+            const background = declarations.filter((d) => backgroundProperties.has(d.property.toLowerCase())).pop();
+            const pair = color && background ? this.declarationPair(color, background) : undefined;
+            if (pair) {
+                pairs.push(pair);
+            }
+            for (const child of rule.children) {
+                if (child.type === 'rule') {
+                    visit(child);
+                }
+            }
+        };
+        for (const node of parseCss(css).children) {
+            if (node.type === 'rule') {
+                visit(node);
+            }
+        }
+
+        return pairs;
+    }
+
+    private declarationPair(color: CssDeclaration, background: CssDeclaration): ContrastPair | undefined {
+        const text = this.valueColors(color.value);
+        const backgroundColors = this.valueColors(background.value);
+        if (!text || !backgroundColors || (!text.fromToken && !backgroundColors.fromToken)) {
+            return undefined;
+        }
+        return { start: color.valueStart, end: color.valueEnd, text: text.colors, background: backgroundColors.colors };
+    }
+
+    private valueColors(value: string): { colors: Map<string, ParsedColor>; fromToken: boolean } | undefined {
+        const wrapped = value.match(wrappedVarPattern);
+        const references = findPreprocessorReferences(value);
+        const varName = wrapped?.[2]
+            ?? (references.length === 1 && references[0].end - references[0].start === value.length ? references[0].name : undefined);
+
+        if (varName) {
+            const channelSpace = wrapped?.[1] ? toChannelSpace(wrapped[1]) : undefined;
+            const colors = new Map<string, ParsedColor>();
+            for (const { context, color } of this.contextualColors.get(varName) ?? []) {
+                colors.set(context, applyChannelSpace(color, channelSpace));
+            }
+            return colors.size > 0 ? { colors, fromToken: true } : undefined;
+        }
+
+        const literal = parseColorValue(value);
+        return literal ? { colors: new Map([['global', literal]]), fromToken: false } : undefined;
+    }
+
+    private classColors(info: TailwindClassInfo): Map<string, ParsedColor> | undefined {
+        const color = resolveTailwindClassColor(
+            info,
+            this.decorationProvider.getGlobalColorVariables(),
+            this.decorationProvider.getVariableValues()
+        );
+        if (!color) {
+            return undefined;
+        }
+
+        const colors = new Map<string, ParsedColor>();
+        const varName = findClassVariable(info.colorName, this.contextualColors);
+        for (const contextColor of varName ? this.contextualColors.get(varName) ?? [] : []) {
+            colors.set(contextColor.context, contextColor.color);
+        }
+        if (colors.size === 0) {
+            colors.set('global', color);
+        }
+
+        const opacity = info.opacityModifier
+            ? resolveOpacityModifier(info.opacityModifier, this.decorationProvider.getVariableValues())
+            : undefined;
+        if (opacity !== undefined) {
+            colors.forEach((value, context) => colors.set(context, applyOpacity(value, opacity)));
+        }
+        return colors;
+    }
+}
+
+// A context without its own value inherits the global one
+function colorInContext(colors: Map<string, ParsedColor>, context: string): ParsedColor | undefined {
+    return colors.get(context) ?? colors.get('global') ?? (colors.size === 1 ? colors.values().next().value : undefined);
+}
@@ -0,0 +1,304 @@
+/**
+ * A small CSS tokenizer and parser shared by indexing, decoration and diagnostics.
+ * It understands what line-based matching gets wrong: comments (`/* … *\/` and SCSS/Less
+ * `//`), strings, parentheses (`url(data:…;…)`), `#{…}` interpolation, declarations
+ * spanning lines, `!important` and minified stylesheets. It is forgiving, like a
+ * browser: unclosed blocks end at the end of the text and stray `}` are ignored.
+ */
+
+export type CssTokenType = 'comment' | 'string' | 'whitespace' | 'word' | '{' | '}' | ';' | ':' | '(' | ')';
+
+export interface CssToken {
+    type: CssTokenType;
+    start: number;
+    end: number;
+}
+
+export interface CssDeclaration {
+    type: 'declaration';
+    property: string; // '--brand', 'color', '$primary' or '@primary'
+    value: string; // trimmed, without `!important`
+    important: boolean;
+    start: number; // offset of the property
+    valueStart: number;
+    valueEnd: number;
+}
+
+export interface CssRule {
+    type: 'rule';
+    prelude: string; // selector list or at-rule, comments removed: '.dark', '@media (prefers-color-scheme: dark)'
+    start: number; // offset of the prelude
+    bodyStart: number; // offset just past '{'
+    end: number; // offset just past '}'
+    children: CssNode[];
+}
+
+export type CssNode = CssRule | CssDeclaration;
+
+export interface CssStylesheet {
+    children: CssNode[];
+    comments: Array<{ start: number; end: number }>;
+}
+
+const propertyPattern = /^(?:--[^\s:]+|[$@]?-?[A-Za-z_][\w-]*)$/;
+// A line starting a new SCSS/Less variable ends an unterminated one (Sass indented syntax)
+const variableLinePattern = /^\n[^\S\n]*[$@][\w-]+\s*:(?!:)/;
+const importantPattern = /\s*!\s*important\s*$/i;
+const delimiters = new Set(['{', '}', ';', ':', '(', ')']);
+
+/**
+ * Splits a stylesheet into tokens. Words are runs of anything else, so `a:hover`
+ * is `a`, `:`, `hover`, and `#{$x}` interpolation stays inside its word.
+ */
+export function tokenizeCss(text: string): CssToken[] {
+    const tokens: CssToken[] = [];
+    let parenDepth = 0;
+    let i = 0;
+
+    while (i < text.length) {
+        const start = i;
+        const ch = text[i];
+        let type: CssTokenType;
+
+        if (ch === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+            type = 'comment';
+        } else if (ch === '/' && text[i + 1] === '/' && parenDepth === 0 && (i === 0 || /[\s;{}]/.test(text[i - 1]))) {
+            // SCSS/Less line comment; `//` inside url() or after `http:` is not one
+            const end = text.indexOf('\n', i);
+            i = end === -1 ? text.length : end;
+            type = 'comment';
+        } else if (ch === '"' || ch === "'") {
+            i = skipString(text, i);
+            type = 'string';
+        } else if (/\s/.test(ch)) {
+            while (i < text.length && /\s/.test(text[i])) {
+                i++;
+            }
+            type = 'whitespace';
+        } else if (delimiters.has(ch)) {
+            i++;
+            type = ch as CssTokenType;
+            parenDepth = ch === '(' ? parenDepth + 1 : ch === ')' ? Math.max(0, parenDepth - 1) : parenDepth;
+        } else {
+            while (i < text.length) {
+                const next = text[i];
+                if (next === '#' && text[i + 1] === '{') {
+                    i = skipInterpolation(text, i);
+                } else if (/\s/.test(next) || delimiters.has(next) || next === '"' || next === "'" || (next === '/' && (text[i + 1] === '*' || text[i + 1] === '/') && i > start)) {
+                    break;
+                } else {
+                    i++;
+                }
+            }
+            type = 'word';
+        }
+
+        tokens.push({ type, start, end: i });
+    }
+
+    return tokens;
+}
+
+/**
+ * Parses a stylesheet into rules (with their prelude and nested children) and
+ * declarations. Statements that are neither (`@import …;`, `.mixin();`) are skipped.
+ */
+export function parseCss(text: string): CssStylesheet {
+    const tokens = tokenizeCss(text);
+    const comments = tokens.filter((token) => token.type === 'comment').map(({ start, end }) => ({ start, end }));
+    const root: CssNode[] = [];
+    const stack: Array<{ children: CssNode[]; rule?: CssRule }> = [{ children: root }];
+    let componentStart = 0; // index of the first token of the current statement
+    let parenDepth = 0;
+
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        const current = stack[stack.length - 1];
+
+        if (token.type === '(') {
+            parenDepth++;
+        } else if (token.type === ')') {
+            parenDepth = Math.max(0, parenDepth - 1);
+        } else if (parenDepth > 0) {
+            continue;
+        } else if (token.type === ';') {
+            addDeclaration(text, tokens, componentStart, index, current.children);
+            componentStart = index + 1;
+        } else if (token.type === '{') {
+            const prelude = tokens.slice(componentStart, index).filter((t) => t.type !== 'comment');
+            const first = prelude.find((t) => t.type !== 'whitespace');
+            const rule: CssRule = {
+                type: 'rule',
+                prelude: prelude.map((t) => text.substring(t.start, t.end)).join('').replace(/\s+/g, ' ').trim(),
+                start: first?.start ?? token.start,
+                bodyStart: token.end,
+                end: text.length,
+                children: [],
+            };
+            current.children.push(rule);
+            stack.push({ children: rule.children, rule });
+            componentStart = index + 1;
+        } else if (token.type === '}') {
+            addDeclaration(text, tokens, componentStart, index, current.children);
+            if (current.rule) {
+                current.rule.end = token.end;
+                stack.pop();
+            }
+            componentStart = index + 1;
+        } else if (token.type === 'whitespace' && endsStatementAtLine(text, tokens, componentStart, index)) {
+            // Sass indented syntax has no semicolons: `$x: red` ends with its line
+            addDeclaration(text, tokens, componentStart, index, current.children);
+            componentStart = index + 1;
+        }
+    }
+    addDeclaration(text, tokens, componentStart, tokens.length, stack[stack.length - 1].children);
+
+    return { children: root, comments };
+}
+
+/**
+ * Visits every declaration with the rules enclosing it, outermost first.
+ */
+export function walkDeclarations(nodes: CssNode[], visit: (declaration: CssDeclaration, rules: CssRule[]) => void, rules: CssRule[] = []): void {
+    for (const node of nodes) {
+        if (node.type === 'rule') {
+            walkDeclarations(node.children, visit, [...rules, node]);
+        } else {
+            visit(node, rules);
+        }
+    }
+}
+
+/**
+ * The text with comments replaced by spaces, so offsets and line numbers still match.
+ */
+export function blankComments(text: string, stylesheet: CssStylesheet): string {
+    let result = '';
+    let cursor = 0;
+    for (const comment of stylesheet.comments) {
+        result += text.substring(cursor, comment.start) + text.substring(comment.start, comment.end).replace(/[^\n]/g, ' ');
+        cursor = comment.end;
+    }
+    return result + text.substring(cursor);
+}
+
+/**
+ * Offsets at which each line of the text starts, for turning offsets into positions
+ * without a TextDocument (workspace files are indexed from their contents).
+ */
+export function findLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    return lineStarts;
+}
+
+// Zero-based line containing `offset`, by binary search over findLineStarts()
+export function lineIndexAt(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * Whether a line break ends the statement before it: a SCSS/Less variable with a value
+ * (unless the line ends in a comma, continuing a list), or anything followed by a line
+ * declaring a variable.
+ */
+function endsStatementAtLine(text: string, tokens: CssToken[], from: number, whitespace: number): boolean {
+    const token = tokens[whitespace];
+    const newline = text.lastIndexOf('\n', token.end - 1);
+    if (newline < token.start) {
+        return false;
+    }
+    if (variableLinePattern.test(text.substring(newline, newline + 200))) {
+        return true;
+    }
+    const statement = tokens.slice(from, whitespace).filter((t) => t.type !== 'whitespace' && t.type !== 'comment');
+    const [name, colon, ...value] = statement;
+    return Boolean(
+        name && /^[$@][\w-]+$/.test(text.substring(name.start, name.end)) && colon?.type === ':' && value.length > 0
+        && !text.substring(value[value.length - 1].start, value[value.length - 1].end).endsWith(',')
+    );
+}
+
+// Adds tokens[from, to) as a declaration when it is `property: value`; returns whether it was one
+function addDeclaration(text: string, tokens: CssToken[], from: number, to: number, children: CssNode[]): boolean {
+    let index = from;
+    while (index < to && (tokens[index].type === 'whitespace' || tokens[index].type === 'comment')) {
+        index++;
+    }
+    const name = tokens[index];
+    if (!name || name.type !== 'word') {
+        return false;
+    }
+    let colon = index + 1;
+    while (colon < to && tokens[colon].type === 'whitespace') {
+        colon++;
+    }
+    const property = text.substring(name.start, name.end);
+    if (colon >= to || tokens[colon].type !== ':' || !propertyPattern.test(property)) {
+        return false;
+    }
+
+    // The value runs to the end of the statement, without comments around it
+    const valueTokens = tokens.slice(colon + 1, to);
+    while (valueTokens.length > 0 && ['whitespace', 'comment'].includes(valueTokens[0].type)) {
+        valueTokens.shift();
+    }
+    while (valueTokens.length > 0 && ['whitespace', 'comment'].includes(valueTokens[valueTokens.length - 1].type)) {
+        valueTokens.pop();
+    }
+    const valueStart = valueTokens[0]?.start ?? tokens[colon].end;
+    let valueEnd = valueTokens[valueTokens.length - 1]?.end ?? valueStart;
+    let value = text.substring(valueStart, valueEnd);
+    const important = importantPattern.exec(value);
+    if (important) {
+        value = value.substring(0, important.index);
+        valueEnd = valueStart + value.length;
+    }
+
+    children.push({ type: 'declaration', property, value, important: Boolean(important), start: name.start, valueStart, valueEnd });
+    return true;
+}
+
+// Offset just past the closing quote of the string starting at `start`; an unclosed string ends at the line
+function skipString(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i + 1;
+        } else if (text[i] === '\n') {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+// Offset just past the `}` closing the `#{` at `start`
+function skipInterpolation(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}' && --depth === 0) {
+            return i + 1;
+        }
+    }
+    return text.length;
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { parseTailwindClass, findClassVariable } from './tailwindParser';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { findVariableAtPosition, findClassAtPosition } from './symbolAtPosition';
+
+/**
+ * Go to Definition / Peek for variables: `var(--x)`, `$x`, `@x`, declarations and
+ * Tailwind classes backed by a variable. Every declaration is returned, one per
+ * context and file, so `var(--text-primary)` lists both its `.light` and `.dark` values.
+ */
+export class CssVariableDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.ProviderResult<vscode.Location[]> {
+        const definitions = this.decorationProvider.getDefinitionLocations();
+        const line = document.lineAt(position.line).text;
+
+        let varName = findVariableAtPosition(line, position.character, (name) => definitions.has(name))?.varName;
+        if (!varName) {
+            const occurrence = findClassAtPosition(document, position);
+            const classInfo = occurrence ? parseTailwindClass(occurrence.name) : null;
+            varName = classInfo ? findClassVariable(classInfo.colorName, definitions) : undefined;
+        }
+        if (!varName) {
+            return undefined;
+        }
+
+        // Sass map entries ($colors.primary) are declared by their key
+        const declaredName = varName.substring(varName.lastIndexOf('.') + 1);
+        return (definitions.get(varName) ?? []).map((location) => new vscode.Location(
+            vscode.Uri.file(location.fileName),
+            new vscode.Range(location.line, location.character, location.line, location.character + declaredName.length)
+        ));
+    }
+}
@@ -0,0 +1,408 @@
+import { parseColorValue } from './colorParser';
+
+/**
+ * A color token read from a W3C Design Tokens (DTCG) or Tokens Studio JSON file,
+ * named like the custom property a token pipeline would generate for it.
+ */
+export interface DesignToken {
+    name: string; // '--color-brand-500'
+    context: string; // from its token set: 'global', 'light', 'dark', …
+    value: string; // CSS value; {alias} references are rewritten as var(--x)
+    keyStart: number; // offset of the token's key in the file, quotes included
+    valueStart: number; // offset of the value text, inside its quotes
+    valueEnd: number;
+    references: DesignTokenReference[];
+}
+
+export interface DesignTokenReference {
+    name: string; // the variable the reference points at
+    start: number; // offset of '{' in the file
+    end: number; // offset just past '}'
+}
+
+/**
+ * Which context each token set belongs to: `{ "core": "global", "theme/dark": "dark" }`.
+ */
+export type TokenSetContexts = Record<string, string>;
+
+// Parsed JSON with the offsets of every value and key
+type JsonNode =
+    | { kind: 'object'; entries: JsonEntry[]; start: number; end: number }
+    | { kind: 'array'; items: JsonNode[]; start: number; end: number }
+    | { kind: 'string'; value: string; start: number; end: number }
+    | { kind: 'literal'; value: number | boolean | null; start: number; end: number };
+
+interface JsonEntry {
+    key: string;
+    keyStart: number;
+    value: JsonNode;
+}
+
+// Written by the token export: the variable a token came from
+const EXPORT_EXTENSION_KEY = 'aryak-lahane.true-colors';
+const referencePattern = /\{([^{}]+)\}/g;
+// Sticky patterns for the JSON reader, matched at its current offset
+const literalPattern = /true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const stringPattern = /"(?:[^"\\\n]|\\.)*"/y;
+const whitespacePattern = /(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/y;
+
+/**
+ * Reads the color tokens of a DTCG (`$value`, `$type`) or Tokens Studio (`value`,
+ * `type`) file. A file is one token set named `setName`, unless it lists its sets in
+ * `$metadata.tokenSetOrder` or `$themes` (Tokens Studio single-file sync), or is a
+ * True Colors export with one group per context. Returns no tokens for other JSON.
+ */
+export function parseDesignTokens(text: string, setName: string, setContexts: TokenSetContexts): DesignToken[] {
+    let root: JsonNode;
+    try {
+        root = new JsonReader(text).read();
+    } catch (error) {
+        return [];
+    }
+    if (root.kind !== 'object') {
+        return [];
+    }
+
+    const metadata = toPlain(entryValue(root, '$metadata')) as { tokenSetOrder?: unknown } | undefined;
+    const themes = toPlain(entryValue(root, '$themes'));
+    const contexts = { ...themeSetContexts(themes), ...setContexts };
+
+    // Token sets and the context each belongs to
+    let sets: Array<{ name: string; node: JsonNode; context: string }>;
+    if (Array.isArray(metadata?.tokenSetOrder) || themes !== undefined) {
+        const order = Array.isArray(metadata?.tokenSetOrder) ? metadata.tokenSetOrder.map(String) : undefined;
+        sets = root.entries
+            .filter(({ key, value }) => !key.startsWith('$') && value.kind === 'object' && (!order || order.includes(key)))
+            .map(({ key, value }) => ({ name: key, node: value, context: setContext(key, contexts) }));
+    } else if (isTrueColorsExport(root)) {
+        sets = root.entries
+            .filter(({ key, value }) => !key.startsWith('$') && value.kind === 'object')
+            .map(({ key, value }) => ({ name: key, node: value, context: contexts[key] ?? key }));
+    } else {
+        sets = [{ name: setName, node: root, context: setContext(setName, contexts) }];
+    }
+
+    // Every token's path within its set → variable name, for references
+    const collected: Array<{ path: string[]; entry: JsonEntry; type?: string; context: string }> = [];
+    for (const set of sets) {
+        collectTokens(set.node, [], undefined, (path, entry, type) => collected.push({ path, entry, type, context: set.context }));
+    }
+    const names = new Map<string, string>();
+    const setNames = new Set(sets.map((set) => set.name));
+    for (const { path, entry } of collected) {
+        names.set(path.join('.'), tokenName(path, entry.value));
+    }
+    const resolveReference = (reference: string): string => {
+        const path = reference.trim().split('.');
+        return names.get(path.join('.'))
+            ?? (setNames.has(path[0]) ? names.get(path.slice(1).join('.')) : undefined)
+            ?? toVariableName(setNames.has(path[0]) ? path.slice(1) : path);
+    };
+
+    const tokens: DesignToken[] = [];
+    for (const { path, entry, type, context } of collected) {
+        const valueNode = entryValue(entry.value, '$value') ?? entryValue(entry.value, 'value');
+        if (!valueNode || (type !== undefined && type !== 'color')) {
+            continue;
+        }
+
+        let value: string | undefined;
+        const references: DesignTokenReference[] = [];
+        if (valueNode.kind === 'string') {
+            const raw = valueNode.value;
+            value = raw.replace(referencePattern, (_whole, reference: string) => `var(${resolveReference(reference)})`);
+            referencePattern.lastIndex = 0;
+            let match;
+            while ((match = referencePattern.exec(raw)) !== null) {
+                // Offsets assume no escapes before the reference, which token files do not use
+                const start = valueNode.start + 1 + match.index;
+                references.push({ name: resolveReference(match[1]), start, end: start + match[0].length });
+            }
+        } else if (valueNode.kind === 'object') {
+            value = colorObjectToCss(toPlain(valueNode) as Record<string, unknown>);
+        }
+
+        // Untyped tokens count when they hold a color or only references
+        const isColor = type === 'color' || (value !== undefined && (references.length > 0 || parseColorValue(value) !== null));
+        if (!value || !isColor) {
+            continue;
+        }
+        tokens.push({
+            name: tokenName(path, entry.value),
+            context,
+            value,
+            keyStart: entry.keyStart,
+            valueStart: valueNode.kind === 'string' ? valueNode.start + 1 : valueNode.start,
+            valueEnd: valueNode.kind === 'string' ? valueNode.end - 1 : valueNode.end,
+            references,
+        });
+    }
+
+    return tokens;
+}
+
+/**
+ * Contexts implied by Tokens Studio themes: a set enabled in some themes belongs to
+ * the context named after the theme (`Dark` → `dark`). Sets used as a source, or
+ * enabled in every theme, are global.
+ */
+export function themeSetContexts(themes: unknown): TokenSetContexts {
+    if (!Array.isArray(themes)) {
+        return {};
+    }
+    const enabledIn = new Map<string, string[]>();
+    const contexts: TokenSetContexts = {};
+    for (const theme of themes) {
+        const name = typeof theme?.name === 'string' ? slug(theme.name) : '';
+        const selected = theme?.selectedTokenSets;
+        if (!name || typeof selected !== 'object' || selected === null) {
+            continue;
+        }
+        for (const [set, status] of Object.entries(selected)) {
+            if (status === 'source') {
+                contexts[set] = 'global';
+            } else if (status === 'enabled') {
+                enabledIn.set(set, [...(enabledIn.get(set) ?? []), name]);
+            }
+        }
+    }
+    const themeCount = themes.length;
+    enabledIn.forEach((names, set) => {
+        if (!(set in contexts)) {
+            contexts[set] = names.length === 1 && themeCount > 1 ? names[0] : 'global';
+        }
+    });
+    return contexts;
+}
+
+/**
+ * The custom property a token path becomes, the way Style Dictionary's kebab-case
+ * naming writes it: `color.brand.500` → `--color-brand-500`, `textPrimary` → `--text-primary`.
+ */
+export function toVariableName(path: string[]): string {
+    return `--${path
+        .map((segment) => segment.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^\w-]+/g, '-').toLowerCase())
+        .join('-')
+        .replace(/-+/g, '-')
+        .replace(/^-|-$/g, '')}`;
+}
+
+/**
+ * Parses just enough of a file to read `$themes`, e.g. Tokens Studio's `$themes.json`.
+ */
+export function readThemes(text: string): unknown {
+    try {
+        const root = new JsonReader(text).read();
+        return root.kind === 'array' ? toPlain(root) : toPlain(root.kind === 'object' ? entryValue(root, '$themes') : undefined);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+// A set's context: configured or from a theme, else light/dark from its name, else global
+function setContext(setName: string, contexts: TokenSetContexts): string {
+    if (contexts[setName]) {
+        return contexts[setName];
+    }
+    const lastSegment = setName.split('/').pop() ?? setName;
+    return lastSegment.match(/(?:^|[-_ ])(light|dark)$/i)?.[1].toLowerCase() ?? 'global';
+}
+
+// Walks groups depth first; `$type` on a group applies to the tokens below it
+function collectTokens(
+    node: JsonNode,
+    path: string[],
+    inheritedType: string | undefined,
+    onToken: (path: string[], entry: JsonEntry, type: string | undefined) => void
+): void {
+    if (node.kind !== 'object') {
+        return;
+    }
+    const groupType = stringValue(entryValue(node, '$type')) ?? inheritedType;
+    for (const entry of node.entries) {
+        if (entry.key.startsWith('$') || entry.value.kind !== 'object') {
+            continue;
+        }
+        const childPath = [...path, entry.key];
+        if (isToken(entry.value)) {
+            const type = stringValue(entryValue(entry.value, '$type')) ?? stringValue(entryValue(entry.value, 'type')) ?? groupType;
+            onToken(childPath, entry, type);
+        } else {
+            collectTokens(entry.value, childPath, groupType, onToken);
+        }
+    }
+}
+
+// DTCG tokens have $value; Tokens Studio tokens have value next to type (or a plain value)
+function isToken(node: JsonNode): boolean {
+    if (entryValue(node, '$value')) {
+        return true;
+    }
+    const value = entryValue(node, 'value');
+    return value !== undefined && (value.kind !== 'object' || entryValue(node, 'type') !== undefined);
+}
+
+// The exported variable name if the token came from a True Colors export
+function tokenName(path: string[], token: JsonNode): string {
+    const extension = toPlain(entryValue(entryValue(token, '$extensions'), EXPORT_EXTENSION_KEY)) as { variable?: unknown } | undefined;
+    return typeof extension?.variable === 'string' ? extension.variable : toVariableName(path);
+}
+
+function isTrueColorsExport(root: JsonNode): boolean {
+    if (root.kind !== 'object') {
+        return false;
+    }
+    const firstSet = root.entries.find(({ value }) => value.kind === 'object')?.value;
+    const firstToken = firstSet?.kind === 'object' ? firstSet.entries[0]?.value : undefined;
+    return entryValue(entryValue(firstToken, '$extensions'), EXPORT_EXTENSION_KEY) !== undefined;
+}
+
+// DTCG color objects: { colorSpace: 'oklch', components: [0.6, 0.2, 260], alpha: 0.5, hex: '#…' }
+function colorObjectToCss(color: Record<string, unknown>): string | undefined {
+    const components = Array.isArray(color.components) ? color.components.map((component) => (typeof component === 'number' ? component : 0)) : undefined;
+    const alpha = typeof color.alpha === 'number' && color.alpha < 1 ? ` / ${color.alpha}` : '';
+    const space = typeof color.colorSpace === 'string' ? color.colorSpace : '';
+    if (!components || components.length !== 3) {
+        return typeof color.hex === 'string' ? color.hex : undefined;
+    }
+    if (space === 'hsl' || space === 'hwb') {
+        return `${space}(${components[0]} ${components[1]}% ${components[2]}%${alpha})`;
+    }
+    if (['lab', 'lch', 'oklab', 'oklch'].includes(space)) {
+        return `${space}(${components.join(' ')}${alpha})`;
+    }
+    const colorSpace = space === 'display-p3' || space === 'srgb-linear' || space === 'a98-rgb' || space === 'prophoto-rgb' || space === 'rec2020' ? space : 'srgb';
+    return `color(${colorSpace} ${components.join(' ')}${alpha})`;
+}
+
+function entryValue(node: JsonNode | undefined, key: string): JsonNode | undefined {
+    return node?.kind === 'object' ? node.entries.find((entry) => entry.key === key)?.value : undefined;
+}
+
+function stringValue(node: JsonNode | undefined): string | undefined {
+    return node?.kind === 'string' ? node.value : undefined;
+}
+
+function toPlain(node: JsonNode | undefined): unknown {
+    if (!node) {
+        return undefined;
+    }
+    switch (node.kind) {
+        case 'object':
+            return Object.fromEntries(node.entries.map(({ key, value }) => [key, toPlain(value)]));
+        case 'array':
+            return node.items.map(toPlain);
+        default:
+            return node.value;
+    }
+}
+
+function slug(name: string): string {
+    return name.trim().toLowerCase().replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * A JSON reader that keeps offsets, so tokens can be located and decorated. Accepts
+ * comments and trailing commas, as editors do for JSON with comments.
+ */
+class JsonReader {
+    private offset = 0;
+
+    constructor(private readonly text: string) {}
+
+    public read(): JsonNode {
+        const node = this.readValue();
+        this.skipWhitespace();
+        if (this.offset < this.text.length) {
+            throw new Error(`Unexpected '${this.text[this.offset]}' at ${this.offset}`);
+        }
+        return node;
+    }
+
+    private readValue(): JsonNode {
+        this.skipWhitespace();
+        const start = this.offset;
+        const ch = this.text[this.offset];
+        if (ch === '{') {
+            return this.readObject();
+        }
+        if (ch === '[') {
+            return this.readArray();
+        }
+        if (ch === '"') {
+            return { kind: 'string', value: this.readString(), start, end: this.offset };
+        }
+        const literal = this.matchAt(literalPattern);
+        if (!literal) {
+            throw new Error(`Unexpected '${ch}' at ${this.offset}`);
+        }
+        this.offset += literal[0].length;
+        return { kind: 'literal', value: JSON.parse(literal[0]), start, end: this.offset };
+    }
+
+    private readObject(): JsonNode {
+        const start = this.offset++;
+        const entries: JsonEntry[] = [];
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.offset] === '}') {
+                this.offset++;
+                return { kind: 'object', entries, start, end: this.offset };
+            }
+            const keyStart = this.offset;
+            if (this.text[this.offset] !== '"') {
+                throw new Error(`Expected a key at ${this.offset}`);
+            }
+            const key = this.readString();
+            this.skipWhitespace();
+            if (this.text[this.offset++] !== ':') {
+                throw new Error(`Expected ':' at ${this.offset - 1}`);
+            }
+            entries.push({ key, keyStart, value: this.readValue() });
+            this.skipSeparator('}');
+        }
+    }
+
+    private readArray(): JsonNode {
+        const start = this.offset++;
+        const items: JsonNode[] = [];
+        while (true) {
+            this.skipWhitespace();
+            if (this.text[this.offset] === ']') {
+                this.offset++;
+                return { kind: 'array', items, start, end: this.offset };
+            }
+            items.push(this.readValue());
+            this.skipSeparator(']');
+        }
+    }
+
+    private readString(): string {
+        const match = this.matchAt(stringPattern);
+        if (!match) {
+            throw new Error(`Unterminated string at ${this.offset}`);
+        }
+        this.offset += match[0].length;
+        return JSON.parse(match[0]);
+    }
+
+    // A comma before the next item, or the closing bracket
+    private skipSeparator(close: string): void {
+        this.skipWhitespace();
+        if (this.text[this.offset] === ',') {
+            this.offset++;
+        } else if (this.text[this.offset] !== close) {
+            throw new Error(`Expected ',' or '${close}' at ${this.offset}`);
+        }
+    }
+
+    private skipWhitespace(): void {
+        const match = this.matchAt(whitespacePattern);
+        this.offset += match ? match[0].length : 0;
+    }
+
+    private matchAt(pattern: RegExp): RegExpExecArray | null {
+        pattern.lastIndex = this.offset;
+        return pattern.exec(this.text);
+    }
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { findNearDuplicates } from './nearDuplicates';
+
+// Messages posted by the webview script
+type ReportMessage =
+    | { type: 'ready' }
+    | { type: 'reveal'; varName: string; context: string };
+
+/**
+ * Webview reporting tokens that are visually the same color under different names.
+ * Tokens are clustered per context by CIEDE2000 distance (`trueColors.duplicateColorThreshold`),
+ * so a pair that only collides in `.dark` is reported for `.dark`. Aliases of one
+ * another (`--button-bg: var(--blue-600)`) are the same color on purpose and are not
+ * paired.
+ */
+export class DuplicateReportPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'trueColors.duplicates',
+            'Near-Duplicate Colors',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        this.panel.webview.html = getHtml(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage((message: ReportMessage) => this.handleMessage(message));
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    /**
+     * Re-sends the clusters to an open panel, after the registry is rebuilt.
+     */
+    public refresh(): void {
+        if (this.panel) {
+            const threshold = getThreshold();
+            const clusters = findNearDuplicates(
+                this.decorationProvider.getContextualColorsMap(),
+                this.decorationProvider.getDetectedContexts(),
+                threshold
+            );
+            this.panel.webview.postMessage({ type: 'update', threshold, clusters });
+        }
+    }
+
+    public dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private async handleMessage(message: ReportMessage): Promise<void> {
+        if (message.type === 'ready') {
+            this.refresh();
+        } else if (message.type === 'reveal') {
+            const locations = this.decorationProvider.getDefinitionLocations().get(message.varName) ?? [];
+            const location = locations.find((candidate) => candidate.context === message.context)
+                ?? locations.find((candidate) => candidate.context === 'global')
+                ?? locations[0];
+            if (!location) {
+                vscode.window.showInformationMessage(`True Colors: No declaration found for ${message.varName}.`);
+                return;
+            }
+            // Open beside the report rather than replacing it
+            const viewColumn = vscode.window.visibleTextEditors[0]?.viewColumn ?? vscode.ViewColumn.Beside;
+            const position = new vscode.Position(location.line, location.character);
+            await vscode.window.showTextDocument(vscode.Uri.file(location.fileName), {
+                viewColumn,
+                selection: new vscode.Range(position, position),
+            });
+        }
+    }
+}
+
+function getThreshold(): number {
+    return vscode.workspace.getConfiguration('trueColors').get<number>('duplicateColorThreshold', 1);
+}
+
+function getHtml(webview: vscode.Webview): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Near-Duplicate Colors</title>
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    .toolbar { position: sticky; top: 0; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 10px 0; background: var(--vscode-editor-background); z-index: 1; }
+    select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; }
+    .count { opacity: 0.7; margin-left: auto; }
+    h2 { font-size: 1.1em; font-weight: 600; margin: 18px 0 6px; }
+    .cluster { border: 1px solid var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.3)); border-radius: 4px; padding: 6px 10px; margin-bottom: 8px; }
+    .cluster-header { opacity: 0.75; margin-bottom: 4px; }
+    .member { display: flex; align-items: center; padding: 2px 4px; cursor: pointer; border-radius: 3px; }
+    .member:hover { background: var(--vscode-list-hoverBackground); }
+    .name { font-family: var(--vscode-editor-font-family); min-width: 220px; }
+    .swatch { display: inline-block; width: 28px; height: 18px; margin-right: 8px; border-radius: 3px; border: 1px solid rgba(128, 128, 128, 0.5);
+        background-image: linear-gradient(45deg, #ccc 25%, transparent 25%, transparent 75%, #ccc 75%), linear-gradient(45deg, #ccc 25%, #fff 25%, #fff 75%, #ccc 75%);
+        background-size: 8px 8px; background-position: 0 0, 4px 4px; position: relative; overflow: hidden; }
+    .swatch > i { position: absolute; inset: 0; }
+    .value { font-family: var(--vscode-editor-font-family); font-size: 0.9em; }
+    .inherited .value { opacity: 0.55; font-style: italic; }
+    .empty { opacity: 0.7; padding: 16px 0; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <label>Context <select id="context"></select></label>
+    <span id="count" class="count"></span>
+</div>
+<div id="report"></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const state = vscode.getState() || { context: '' };
+    const contextSelect = document.getElementById('context');
+    let report = { threshold: 0, clusters: [] };
+
+    function escapeHtml(text) {
+        return String(text).replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]));
+    }
+
+    function contextLabel(context) {
+        return context === 'global' ? 'global' : '.' + context;
+    }
+
+    function renderContexts() {
+        const contexts = Array.from(new Set(report.clusters.map((cluster) => cluster.context)));
+        const options = ['<option value="">All contexts</option>'].concat(contexts.map((context) =>
+            '<option value="' + escapeHtml(context) + '"' + (context === state.context ? ' selected' : '') + '>' + escapeHtml(contextLabel(context)) + '</option>'));
+        contextSelect.innerHTML = options.join('');
+    }
+
+    function renderReport() {
+        const clusters = report.clusters.filter((cluster) => !contextSelect.value || cluster.context === contextSelect.value);
+        document.getElementById('count').textContent = clusters.length + ' cluster' + (clusters.length === 1 ? '' : 's') + ' within ΔE00 ' + report.threshold;
+        if (clusters.length === 0) {
+            document.getElementById('report').innerHTML = '<div class="empty">No near-duplicate colors within ΔE00 ' + escapeHtml(report.threshold) + '.</div>';
+            return;
+        }
+
+        let html = '';
+        let context;
+        for (const cluster of clusters) {
+            if (cluster.context !== context) {
+                context = cluster.context;
+                html += '<h2>' + escapeHtml(contextLabel(context)) + '</h2>';
+            }
+            const header = cluster.members.length + ' tokens · ' + (cluster.maxDistance === 0 ? 'identical' : 'up to ΔE00 ' + cluster.maxDistance);
+            const members = cluster.members.map((member) =>
+                '<div class="member' + (member.inherited ? ' inherited' : '') + '" title="' + (member.inherited ? 'Inherited from global' : 'Defined in ' + escapeHtml(contextLabel(cluster.context))) + '"'
+                + ' data-var="' + escapeHtml(member.varName) + '" data-context="' + escapeHtml(cluster.context) + '">'
+                + '<span class="swatch"><i style="background:' + escapeHtml(member.rgba) + '"></i></span>'
+                + '<span class="name">' + escapeHtml(member.varName) + '</span><span class="value">' + escapeHtml(member.aliasOf ? 'var(' + member.aliasOf + ') → ' + member.text : member.text) + '</span></div>').join('');
+            html += '<div class="cluster"><div class="cluster-header">' + escapeHtml(header) + '</div>' + members + '</div>';
+        }
+        document.getElementById('report').innerHTML = html;
+    }
+
+    contextSelect.addEventListener('change', () => {
+        state.context = contextSelect.value;
+        vscode.setState(state);
+        renderReport();
+    });
+    document.getElementById('report').addEventListener('click', (event) => {
+        const member = event.target.closest('.member');
+        if (member) {
+            vscode.postMessage({ type: 'reveal', varName: member.dataset.var, context: member.dataset.context });
+        }
+    });
+
+    window.addEventListener('message', (event) => {
+        if (event.data.type === 'update') {
+            report = event.data;
+            renderContexts();
+            renderReport();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
@@ -3,29 +3,87 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ColorDecorationProvider } from './colorDecorationProvider';
 import { CssVariableHoverProvider } from './hoverProvider';
+import { ColorPickerProvider } from './colorPickerProvider';
+import { CssVariableDefinitionProvider } from './definitionProvider';
+import { TokenReferenceProvider } from './referenceProvider';
+import { ColorCompletionProvider } from './completionProvider';
+import { TokenIndex } from './tokenIndex';
+import { TokenTreeProvider, TokenNode, TokenGrouping, toUsage } from './tokenTreeProvider';
+import { ThemePalettePanel } from './palettePanel';
+import { DuplicateReportPanel } from './duplicateReport';
+import { exportTokens, ExportFormat, EXPORT_FORMATS } from './tokenExport';
+import { readThemes, themeSetContexts, TokenSetContexts } from './designTokens';
+import { ContrastDiagnostics } from './contrastDiagnostics';
+import { TokenDiagnostics, IGNORE_VARIABLE_COMMAND } from './tokenDiagnostics';
+import { LiteralDiagnostics } from './literalDiagnostics';
+import { parseTailwindConfig, TailwindConfig } from './tailwindConfig';
+import { setTailwindConfig, setTailwindVersion, setCssCustomVariants, TailwindVersion } from './tailwindParser';
+import { setClassSources, DEFAULT_CLASS_ATTRIBUTES, DEFAULT_CLASS_FUNCTIONS } from './classDetector';
+import { setContextSelectors } from './selectorContexts';
+import { extractStyleBlocks, STYLE_BLOCK_LANGUAGES, STYLESHEET_LANGUAGES } from './styleBlocks';
 
 let decorationProvider: ColorDecorationProvider | undefined;
 let hoverProvider: CssVariableHoverProvider | undefined;
+let contrastDiagnostics: ContrastDiagnostics | undefined;
+let tokenDiagnostics: TokenDiagnostics | undefined;
+let literalDiagnostics: LiteralDiagnostics | undefined;
+let tokenTreeProvider: TokenTreeProvider | undefined;
+let palettePanel: ThemePalettePanel | undefined;
+let duplicateReport: DuplicateReportPanel | undefined;
 let debounceTimer: NodeJS.Timeout | undefined;
 let fileChangeTimer: NodeJS.Timeout | undefined;
 let enabledLanguagesCache: Set<string> | undefined;
+let designTokenWatchers: vscode.FileSystemWatcher[] = [];
+let designTokenThemeContexts: TokenSetContexts = {}; // from Tokens Studio $themes.json files
+let designTokenRoots: string[] = []; // folders holding a $themes.json; set names are relative to them
+let styledComponentFiles: Set<string> = new Set(); // component files that had a <style> block at the last scan
+let indexRun: Promise<void> = Promise.resolve(); // the scan in progress, if any
+let queuedIndexRun: Promise<void> | undefined; // one follow-up scan shared by requests made meanwhile
 
-const SUPPORTED_LANGUAGES = ['css', 'typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+const SUPPORTED_LANGUAGES = ['css', 'scss', 'sass', 'less', 'postcss', 'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'vue', 'svelte', 'astro', 'html'];
 const FILE_TYPE_TO_LANGUAGE: Record<string, string> = {
     css: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less',
+    postcss: 'postcss',
     ts: 'typescript',
     tsx: 'typescriptreact',
     js: 'javascript',
-    jsx: 'javascriptreact'
+    jsx: 'javascriptreact',
+    vue: 'vue',
+    svelte: 'svelte',
+    astro: 'astro',
+    html: 'html'
 };
-const DEFAULT_ENABLED_FILE_TYPES = ['css', 'ts', 'tsx', 'js', 'jsx'];
+const DEFAULT_ENABLED_FILE_TYPES = ['css', 'scss', 'sass', 'less', 'postcss', 'ts', 'tsx', 'js', 'jsx', 'vue', 'svelte', 'astro', 'html'];
 const LANGUAGE_TO_FILE_TYPE: Record<string, string> = {
     css: 'css',
+    scss: 'scss',
+    sass: 'sass',
+    less: 'less',
+    postcss: 'postcss',
     typescript: 'ts',
     typescriptreact: 'tsx',
     javascript: 'js',
-    javascriptreact: 'jsx'
+    javascriptreact: 'jsx',
+    vue: 'vue',
+    svelte: 'svelte',
+    astro: 'astro',
+    html: 'html'
 };
+// Stylesheets (including preprocessor partials such as _tokens.scss) and
+// component files whose <style> blocks can declare variables
+const STYLESHEET_GLOB = '**/*.{css,scss,sass,less,pcss,postcss}';
+const COMPONENT_FILE_GLOB = '**/*.{vue,svelte,astro,html}';
+const STYLE_SOURCE_GLOB = '**/*.{css,scss,sass,less,pcss,postcss,vue,svelte,astro,html}';
+const COMPONENT_FILE_PATTERN = /\.(?:vue|svelte|astro|html)$/;
+// Every file that can define or use a token, for references and rename
+const TOKEN_SOURCE_GLOB = '**/*.{css,scss,sass,less,pcss,postcss,ts,tsx,js,jsx,mjs,cjs,vue,svelte,astro,html}';
+const TAILWIND_CONFIG_GLOB = '**/tailwind.config.{js,cjs,mjs,ts,cts,mts}';
+const EXCLUDE_GLOB = '{**/node_modules/**,**/dist/**,**/build/**,**/.next/**}';
+// W3C Design Tokens / Tokens Studio JSON files indexed as color sources
+const DEFAULT_DESIGN_TOKEN_FILES = ['**/*.tokens.json', '**/tokens.json', '**/tokens/**/*.json'];
 const DEBOUNCE_DELAY_MS = 500; // Delay before updating decorations after typing stops (Microsoft recommended)
 
 // Create output channel for logging
@@ -71,12 +129,59 @@ function isDecorationEnabledForLanguage(languageId: string): boolean {
     return getEnabledLanguages().has(languageId);
 }
 
+function getDesignTokenGlobs(): string[] {
+    return vscode.workspace.getConfiguration('trueColors').get<string[]>('designTokenFiles', DEFAULT_DESIGN_TOKEN_FILES);
+}
+
+function isDesignTokenDocument(document: vscode.TextDocument): boolean {
+    return (document.languageId === 'json' || document.languageId === 'jsonc')
+        && getDesignTokenGlobs().some((pattern) => vscode.languages.match({ pattern }, document) > 0);
+}
+
+function shouldDecorate(document: vscode.TextDocument): boolean {
+    return isDecorationEnabledForLanguage(document.languageId) || isDesignTokenDocument(document);
+}
+
+/**
+ * The token set a JSON file holds: its path below the folder of a Tokens Studio
+ * `$themes.json` (`theme/dark`), or its file name (`dark.tokens.json` → `dark`).
+ */
+function designTokenSource(fsPath: string): { setName: string; setContexts: TokenSetContexts } {
+    const root = designTokenRoots.find((folder) => fsPath.startsWith(folder + path.sep));
+    const setName = root
+        ? path.relative(root, fsPath).split(path.sep).join('/').replace(/\.json$/i, '')
+        : path.basename(fsPath).replace(/(?:\.tokens)?\.json$/i, '');
+    const configured = vscode.workspace.getConfiguration('trueColors').get<TokenSetContexts>('tokenSetContexts', {});
+    return { setName, setContexts: { ...designTokenThemeContexts, ...configured } };
+}
+
+/**
+ * Refresh everything shown for a document: decorations and diagnostics.
+ */
+function updateDocument(document: vscode.TextDocument): void {
+    if (isDesignTokenDocument(document)) {
+        decorationProvider?.updateDesignTokenDecorations(document, designTokenSource(document.uri.fsPath));
+        return;
+    }
+    decorationProvider?.updateDecorations(document);
+    contrastDiagnostics?.update(document);
+    tokenDiagnostics?.update(document);
+    literalDiagnostics?.update(document);
+}
+
+function clearDocument(uri: vscode.Uri): void {
+    decorationProvider?.clearDocumentColors(uri.toString());
+    contrastDiagnostics?.clear(uri);
+    tokenDiagnostics?.clear(uri);
+    literalDiagnostics?.clear(uri);
+}
+
 function refreshVisibleEditors(): void {
     vscode.window.visibleTextEditors.forEach((editor) => {
-        if (isDecorationEnabledForLanguage(editor.document.languageId)) {
-            decorationProvider?.updateDecorations(editor.document);
+        if (shouldDecorate(editor.document)) {
+            updateDocument(editor.document);
         } else {
-            decorationProvider?.clearDocumentColors(editor.document.uri.toString());
+            clearDocument(editor.document.uri);
         }
     });
 }
@@ -84,32 +189,94 @@ function refreshVisibleEditors(): void {
 export function activate(context: vscode.ExtensionContext) {
     log('True Colors extension is now active');
 
+    applyClassSources();
+    applyContextSelectors();
+
     // Create the decoration provider
     decorationProvider = new ColorDecorationProvider();
 
     // Create the hover provider
     hoverProvider = new CssVariableHoverProvider(new Map());
 
+    // Contrast warnings for text/background pairs
+    contrastDiagnostics = new ContrastDiagnostics(decorationProvider);
+
+    // Undefined variables and unknown class colors, with quick fixes
+    tokenDiagnostics = new TokenDiagnostics(decorationProvider);
+
+    // Hard-coded literals that match a token, with replacements
+    literalDiagnostics = new LiteralDiagnostics(decorationProvider);
+
     // Register hover provider for supported languages  
     const hoverProviderDisposable = vscode.languages.registerHoverProvider(
-        [
-            { language: 'css' },
-            { language: 'typescript' },
-            { language: 'typescriptreact' },
-            { language: 'javascript' },
-            { language: 'javascriptreact' }
-        ],
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
         hoverProvider
     );
     
     log('Hover provider registered for supported languages');
 
+    // Native color picker: edits write the value back in its original notation
+    const colorProviderDisposable = vscode.languages.registerColorProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        new ColorPickerProvider((varName) => decorationProvider?.getChannelSpaceHint(varName))
+    );
+
+    const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        tokenDiagnostics,
+        { providedCodeActionKinds: TokenDiagnostics.providedCodeActionKinds }
+    );
+
+    const literalCodeActionDisposable = vscode.languages.registerCodeActionsProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        literalDiagnostics,
+        { providedCodeActionKinds: LiteralDiagnostics.providedCodeActionKinds }
+    );
+
+    // Go to Definition / Peek: every declaration of a variable, per context and file
+    const definitionProviderDisposable = vscode.languages.registerDefinitionProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        new CssVariableDefinitionProvider(decorationProvider)
+    );
+
+    // Find All References / Rename, backed by an index of every file in the workspace
+    const tokenIndex = new TokenIndex(TOKEN_SOURCE_GLOB, EXCLUDE_GLOB);
+    const referenceProvider = new TokenReferenceProvider(decorationProvider, tokenIndex);
+    const referenceProviderDisposable = vscode.languages.registerReferenceProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        referenceProvider
+    );
+    const renameProviderDisposable = vscode.languages.registerRenameProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        referenceProvider
+    );
+
+    // Completions for var(--…) and color classes, ranked by workspace usage
+    const completionProviderDisposable = vscode.languages.registerCompletionItemProvider(
+        SUPPORTED_LANGUAGES.map((language) => ({ language })),
+        new ColorCompletionProvider(decorationProvider, tokenIndex),
+        '-'
+    );
+
+    // Token explorer in the Activity Bar
+    tokenTreeProvider = new TokenTreeProvider(decorationProvider);
+    const tokenTreeView = vscode.window.createTreeView('trueColors.tokens', {
+        treeDataProvider: tokenTreeProvider,
+        showCollapseAll: true,
+    });
+
+    // Side-by-side grid of every token in every context
+    palettePanel = new ThemePalettePanel(decorationProvider);
+
+    // Tokens that are visually the same color under different names
+    duplicateReport = new DuplicateReportPanel(decorationProvider);
+
     // Initialize by scanning workspace for CSS files to build color variable map
     initializeColorVariables();
 
     // Register for text document changes with debouncing
     const disposable = vscode.workspace.onDidChangeTextDocument((event) => {
-        if (isDecorationEnabledForLanguage(event.document.languageId)) {
+        if (shouldDecorate(event.document)) {
             // Clear previous timer
             if (debounceTimer) {
                 clearTimeout(debounceTimer);
@@ -117,7 +284,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             // Set new timer to update decorations after typing stops
             debounceTimer = setTimeout(() => {
-                decorationProvider?.updateDecorations(event.document);
+                updateDocument(event.document);
             }, DEBOUNCE_DELAY_MS);
         }
     });
@@ -125,27 +292,30 @@ export function activate(context: vscode.ExtensionContext) {
     // Register for active editor changes
     const editorDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
         if (editor) {
-            if (isDecorationEnabledForLanguage(editor.document.languageId)) {
-                decorationProvider?.updateDecorations(editor.document);
+            if (shouldDecorate(editor.document)) {
+                updateDocument(editor.document);
             } else {
-                decorationProvider?.clearDocumentColors(editor.document.uri.toString());
+                clearDocument(editor.document.uri);
             }
         }
     });
 
-    // Register for when files are saved (to refresh color variables)
-    const saveDisposable = vscode.workspace.onDidSaveTextDocument((document) => {
-        if (document.languageId === 'css') {
-            // Re-scan ALL CSS files so multi-file context data (e.g. .light in one file,
-            // .dark in another) is not wiped when a single file is saved.
-            initializeColorVariables().catch((error) => log(`Error refreshing after save: ${error}`));
-        }
+    // Diagnostics are only kept for open documents
+    const closeDisposable = vscode.workspace.onDidCloseTextDocument((document) => {
+        contrastDiagnostics?.clear(document.uri);
+        tokenDiagnostics?.clear(document.uri);
+        literalDiagnostics?.clear(document.uri);
     });
 
-    // Watch for CSS file changes with debouncing
-    const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.css');
+    // Watch for CSS file changes with debouncing. Saving a file also fires the watcher,
+    // so both share one timer and a save re-indexes once.
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(STYLE_SOURCE_GLOB);
     
-    const refreshAllAfterCssChange = (_uri: vscode.Uri) => {
+    const refreshAllAfterCssChange = (uri: vscode.Uri) => {
+        // Component files only matter when they have (or just lost) a <style> block
+        if (!affectsColorIndex(uri)) {
+            return;
+        }
         if (fileChangeTimer) {
             clearTimeout(fileChangeTimer);
         }
@@ -154,6 +324,18 @@ export function activate(context: vscode.ExtensionContext) {
             initializeColorVariables().catch((error) => log(`Error refreshing after CSS change: ${error}`));
         }, DEBOUNCE_DELAY_MS);
     };
+
+    // Register for when files are saved (to refresh color variables), in case the file
+    // is outside the watched globs' reach
+    const saveDisposable = vscode.workspace.onDidSaveTextDocument((document) => {
+        if (
+            STYLESHEET_LANGUAGES.has(document.languageId) ||
+            STYLE_BLOCK_LANGUAGES.has(document.languageId) ||
+            isDesignTokenDocument(document)
+        ) {
+            refreshAllAfterCssChange(document.uri);
+        }
+    });
     
     fileWatcher.onDidChange(refreshAllAfterCssChange);
     fileWatcher.onDidCreate(refreshAllAfterCssChange);
@@ -163,6 +345,20 @@ export function activate(context: vscode.ExtensionContext) {
         refreshVisibleEditors();
     });
 
+    // Design token JSON files are watched per configured glob, re-created when it changes
+    watchDesignTokenFiles(refreshAllAfterCssChange);
+
+    // Re-index Tailwind config colors when the config changes
+    const tailwindConfigWatcher = vscode.workspace.createFileSystemWatcher(TAILWIND_CONFIG_GLOB);
+    const reloadTailwindConfig = () => {
+        loadTailwindConfig()
+            .then(() => refreshVisibleEditors())
+            .catch((error) => log(`Error reloading Tailwind config: ${error}`));
+    };
+    tailwindConfigWatcher.onDidChange(reloadTailwindConfig);
+    tailwindConfigWatcher.onDidCreate(reloadTailwindConfig);
+    tailwindConfigWatcher.onDidDelete(reloadTailwindConfig);
+
     // Update decorations for currently open editors
     refreshVisibleEditors();
 
@@ -183,6 +379,7 @@ export function activate(context: vscode.ExtensionContext) {
             const config = vscode.workspace.getConfiguration('trueColors');
             const currentMode = config.get<string>('colorMode', 'auto');
             const detectedContexts = decorationProvider?.getDetectedContexts() || [];
+            const contextSources = decorationProvider?.getContextSources() ?? new Map<string, string[]>();
             
             // Build quick pick items dynamically
             const items = [
@@ -196,16 +393,17 @@ export function activate(context: vscode.ExtensionContext) {
             
             // Add all detected contexts dynamically
             detectedContexts.forEach((context) => {
+                const sources = contextSources.get(context) ?? [`.${context}`];
                 items.push({ 
                     label: context, 
-                    description: `Show .${context} colors`,
-                    detail: `Use colors defined in .${context} { } block`,
+                    description: `Show ${context} colors`,
+                    detail: `Use colors defined in ${sources.join(', ')}`,
                     picked: currentMode === context 
                 });
             });
             
             if (detectedContexts.length === 0) {
-                vscode.window.showInformationMessage('No CSS class contexts detected (e.g., .light, .dark). Colors are global.');
+                vscode.window.showInformationMessage('No contexts detected (e.g., .dark, [data-theme="dark"], @media (prefers-color-scheme: dark)). Colors are global.');
                 return;
             }
             
@@ -224,6 +422,11 @@ export function activate(context: vscode.ExtensionContext) {
                 if (decorationProvider && hoverProvider) {
                     hoverProvider.updateGlobalVariables(decorationProvider.getGlobalColorVariables());
                     hoverProvider.updateContextualVariables(decorationProvider.getContextualColorsMap());
+                    hoverProvider.updateVariableValues(decorationProvider.getVariableValues());
+                    hoverProvider.updateDefinitionLocations(decorationProvider.getDefinitionLocations());
+                    tokenTreeProvider?.refresh();
+                    palettePanel?.refresh();
+                    duplicateReport?.refresh();
                 }
                 
                 refreshVisibleEditors();
@@ -239,10 +442,18 @@ export function activate(context: vscode.ExtensionContext) {
             const config = vscode.workspace.getConfiguration('trueColors');
             const fileTypeMeta = [
                 { key: 'css', name: 'CSS (.css)' },
+                { key: 'scss', name: 'SCSS (.scss)' },
+                { key: 'sass', name: 'Sass (.sass)' },
+                { key: 'less', name: 'Less (.less)' },
+                { key: 'postcss', name: 'PostCSS (.pcss, .postcss)' },
                 { key: 'ts', name: 'TypeScript (.ts)' },
                 { key: 'tsx', name: 'TypeScript React (.tsx)' },
                 { key: 'js', name: 'JavaScript (.js)' },
-                { key: 'jsx', name: 'JavaScript React (.jsx)' }
+                { key: 'jsx', name: 'JavaScript React (.jsx)' },
+                { key: 'vue', name: 'Vue (.vue)' },
+                { key: 'svelte', name: 'Svelte (.svelte)' },
+                { key: 'astro', name: 'Astro (.astro)' },
+                { key: 'html', name: 'HTML and Angular templates (.html)' }
             ];
 
             type FileTypePickerItem = vscode.QuickPickItem & { action: string; key?: string };
@@ -258,7 +469,7 @@ export function activate(context: vscode.ExtensionContext) {
                     })),
                     {
                         label: 'Enable all file types',
-                        detail: 'Turn decorations on for css, ts, tsx, js, jsx',
+                        detail: `Turn decorations on for ${DEFAULT_ENABLED_FILE_TYPES.join(', ')}`,
                         action: '__all__'
                     }
                 ]);
@@ -352,16 +563,124 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // Quick fix: add a variable defined outside the workspace to trueColors.ignoredVariables
+    const ignoreVariableCommand = vscode.commands.registerCommand(
+        IGNORE_VARIABLE_COMMAND,
+        async (varName: string) => {
+            const config = vscode.workspace.getConfiguration('trueColors');
+            const ignored = config.get<string[]>('ignoredVariables', ['--tw-*']);
+            if (!ignored.includes(varName)) {
+                await config.update('ignoredVariables', [...ignored, varName], vscode.ConfigurationTarget.Workspace);
+            }
+        }
+    );
+
+    // Token explorer commands
+    const tokenCommands = [
+        vscode.commands.registerCommand('cssColorPreview.tokens.filter', async () => {
+            const filter = await vscode.window.showInputBox({
+                prompt: 'Show tokens whose name or value contains',
+                placeHolder: 'e.g. primary, --text-, oklch',
+                value: tokenTreeProvider?.getFilter(),
+            });
+            if (filter !== undefined) {
+                tokenTreeProvider?.setFilter(filter);
+                tokenTreeView.description = filter.trim() ? `filter: ${filter.trim()}` : undefined;
+                vscode.commands.executeCommand('setContext', 'trueColors.tokensFiltered', Boolean(filter.trim()));
+            }
+        }),
+        vscode.commands.registerCommand('cssColorPreview.tokens.clearFilter', () => {
+            tokenTreeProvider?.setFilter('');
+            tokenTreeView.description = undefined;
+            vscode.commands.executeCommand('setContext', 'trueColors.tokensFiltered', false);
+        }),
+        vscode.commands.registerCommand('cssColorPreview.tokens.groupBy', async () => {
+            const config = vscode.workspace.getConfiguration('trueColors');
+            const current = config.get<TokenGrouping>('tokenGrouping', 'file');
+            const options: Array<vscode.QuickPickItem & { value: TokenGrouping }> = [
+                { label: 'File', description: 'Where each variable is declared', value: 'file' },
+                { label: 'Context', description: 'global, .light, .dark, …', value: 'context' },
+                { label: 'Prefix', description: '--text-*, --bg-*, …', value: 'prefix' },
+            ];
+            const selected = await vscode.window.showQuickPick(
+                options.map((option) => ({ ...option, picked: option.value === current })),
+                { placeHolder: 'Group color tokens by' }
+            );
+            if (selected && selected.value !== current) {
+                await config.update('tokenGrouping', selected.value, vscode.ConfigurationTarget.Global);
+            }
+        }),
+        vscode.commands.registerCommand('cssColorPreview.tokens.revealDefinition', async (node: TokenNode) => {
+            const location = tokenTreeProvider?.getLocation(node);
+            if (!location) {
+                vscode.window.showInformationMessage('True Colors: No declaration found for this token.');
+                return;
+            }
+            const position = new vscode.Position(location.line, location.character);
+            await vscode.window.showTextDocument(vscode.Uri.file(location.fileName), { selection: new vscode.Range(position, position) });
+        }),
+        vscode.commands.registerCommand('cssColorPreview.tokens.copyValue', async (node: TokenNode) => {
+            const value = tokenTreeProvider?.getValue(node);
+            if (value !== undefined) {
+                await vscode.env.clipboard.writeText(value);
+            }
+        }),
+        vscode.commands.registerCommand('cssColorPreview.tokens.copyUsage', async (node: TokenNode) => {
+            if (node.kind !== 'group') {
+                await vscode.env.clipboard.writeText(toUsage(node.varName));
+            }
+        }),
+    ];
+
+    const showPaletteCommand = vscode.commands.registerCommand('cssColorPreview.showThemePalette', () => {
+        palettePanel?.show();
+    });
+
+    const showDuplicatesCommand = vscode.commands.registerCommand('cssColorPreview.showNearDuplicates', () => {
+        duplicateReport?.show();
+    });
+
+    const exportTokensCommand = vscode.commands.registerCommand('cssColorPreview.exportTokens', exportColorTokens);
+
     // Listen for configuration changes
     const configDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('trueColors.contextSelectors')) {
+            applyContextSelectors();
+            initializeColorVariables().catch((error) => log(`Error re-indexing contexts: ${error}`));
+        }
+        if (event.affectsConfiguration('trueColors.designTokenFiles') || event.affectsConfiguration('trueColors.tokenSetContexts')) {
+            if (event.affectsConfiguration('trueColors.designTokenFiles')) {
+                watchDesignTokenFiles(refreshAllAfterCssChange);
+            }
+            initializeColorVariables().catch((error) => log(`Error re-indexing design tokens: ${error}`));
+        }
+        if (event.affectsConfiguration('trueColors.duplicateColorThreshold')) {
+            duplicateReport?.refresh();
+        }
         if (
             event.affectsConfiguration('trueColors.colorMode') ||
             event.affectsConfiguration('trueColors.enabledLanguages') ||
-            event.affectsConfiguration('trueColors.decorationStyle')
+            event.affectsConfiguration('trueColors.decorationStyle') ||
+            event.affectsConfiguration('trueColors.tailwindVersion') ||
+            event.affectsConfiguration('trueColors.classAttributes') ||
+            event.affectsConfiguration('trueColors.classFunctions') ||
+            event.affectsConfiguration('trueColors.contrastLevel') ||
+            event.affectsConfiguration('trueColors.apcaMinimumLc') ||
+            event.affectsConfiguration('trueColors.undefinedTokenDiagnostics') ||
+            event.affectsConfiguration('trueColors.ignoredVariables') ||
+            event.affectsConfiguration('trueColors.hardcodedColorDiagnostics') ||
+            event.affectsConfiguration('trueColors.hardcodedColorTolerance') ||
+            event.affectsConfiguration('trueColors.tokenGrouping')
         ) {
             if (event.affectsConfiguration('trueColors.enabledLanguages')) {
                 enabledLanguagesCache = undefined;
             }
+            if (event.affectsConfiguration('trueColors.tailwindVersion')) {
+                applyTailwindVersion();
+            }
+            if (event.affectsConfiguration('trueColors.classAttributes') || event.affectsConfiguration('trueColors.classFunctions')) {
+                applyClassSources();
+            }
             const config = vscode.workspace.getConfiguration('trueColors');
             const mode = config.get<string>('colorMode', 'auto');
             
@@ -378,6 +697,11 @@ export function activate(context: vscode.ExtensionContext) {
             if (decorationProvider && hoverProvider) {
                 hoverProvider.updateGlobalVariables(decorationProvider.getGlobalColorVariables());
                 hoverProvider.updateContextualVariables(decorationProvider.getContextualColorsMap());
+                hoverProvider.updateVariableValues(decorationProvider.getVariableValues());
+                hoverProvider.updateDefinitionLocations(decorationProvider.getDefinitionLocations());
+                tokenTreeProvider?.refresh();
+                palettePanel?.refresh();
+                duplicateReport?.refresh();
             }
             
             refreshVisibleEditors();
@@ -392,9 +716,30 @@ export function activate(context: vscode.ExtensionContext) {
         switchModeCommand,
         switchFileTypesCommand,
         switchDecorationStyleCommand,
+        ignoreVariableCommand,
         configDisposable,
         fileWatcher,
-        hoverProviderDisposable
+        tailwindConfigWatcher,
+        hoverProviderDisposable,
+        definitionProviderDisposable,
+        referenceProviderDisposable,
+        renameProviderDisposable,
+        completionProviderDisposable,
+        colorProviderDisposable,
+        codeActionDisposable,
+        literalCodeActionDisposable,
+        tokenIndex,
+        tokenTreeView,
+        ...tokenCommands,
+        showPaletteCommand,
+        showDuplicatesCommand,
+        exportTokensCommand,
+        palettePanel,
+        duplicateReport,
+        closeDisposable,
+        contrastDiagnostics,
+        tokenDiagnostics,
+        literalDiagnostics
     );
 }
 
@@ -406,6 +751,7 @@ export function deactivate() {
     if (fileChangeTimer) {
         clearTimeout(fileChangeTimer);
     }
+    designTokenWatchers.forEach((watcher) => watcher.dispose());
     decorationProvider?.dispose();
     
     // Dispose output channel
@@ -414,22 +760,255 @@ export function deactivate() {
     }
 }
 
-async function initializeColorVariables() {
+/**
+ * Read theme colors from every tailwind.config in the workspace (statically, without
+ * executing it). Colors from multiple configs are merged; the first definition wins.
+ */
+async function loadTailwindConfig() {
+    const configFiles = await vscode.workspace.findFiles(TAILWIND_CONFIG_GLOB, EXCLUDE_GLOB, 20);
+    let merged: TailwindConfig | undefined;
+
+    for (const fileUri of configFiles) {
+        try {
+            const config = parseTailwindConfig(fs.readFileSync(fileUri.fsPath, 'utf8'));
+            if (!config) {
+                log(`No theme colors found in ${fileUri.fsPath}`);
+                continue;
+            }
+            log(`Loaded ${config.colors.size} Tailwind colors from ${fileUri.fsPath}`);
+            if (!merged) {
+                merged = config;
+                continue;
+            }
+            config.colors.forEach((value, name) => {
+                if (!merged?.colors.has(name)) {
+                    merged?.colors.set(name, value);
+                }
+            });
+            merged.replacesDefaultPalette = merged.replacesDefaultPalette && config.replacesDefaultPalette;
+            merged.variants.push(...config.variants);
+        } catch (error) {
+            log(`Error reading Tailwind config ${fileUri.fsPath}: ${error}`);
+        }
+    }
+
+    setTailwindConfig(merged);
+}
+
+/**
+ * Design token files matching `trueColors.designTokenFiles`. Tokens Studio's
+ * `$themes.json` is read for the set → context mapping instead of being scanned.
+ */
+async function findDesignTokenFiles(): Promise<vscode.Uri[]> {
+    const files = new Map<string, vscode.Uri>();
+    for (const pattern of getDesignTokenGlobs()) {
+        for (const uri of await vscode.workspace.findFiles(pattern, EXCLUDE_GLOB, 500)) {
+            files.set(uri.fsPath, uri);
+        }
+    }
+
+    designTokenThemeContexts = {};
+    designTokenRoots = [];
+    const tokenFiles: vscode.Uri[] = [];
+    files.forEach((uri, fsPath) => {
+        const fileName = path.basename(fsPath);
+        if (fileName === '$themes.json') {
+            try {
+                Object.assign(designTokenThemeContexts, themeSetContexts(readThemes(fs.readFileSync(fsPath, 'utf8'))));
+                designTokenRoots.push(path.dirname(fsPath));
+            } catch (error) {
+                log(`Error reading ${fsPath}: ${error}`);
+            }
+        } else if (fileName !== '$metadata.json') {
+            tokenFiles.push(uri);
+        }
+    });
+    return tokenFiles;
+}
+
+function watchDesignTokenFiles(onChange: (uri: vscode.Uri) => void): void {
+    designTokenWatchers.forEach((watcher) => watcher.dispose());
+    designTokenWatchers = getDesignTokenGlobs().map((pattern) => {
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        watcher.onDidChange(onChange);
+        watcher.onDidCreate(onChange);
+        watcher.onDidDelete(onChange);
+        return watcher;
+    });
+}
+
+/**
+ * Write the color registry to a file. With `trueColors.exportPath` set the export runs
+ * without prompts, so it can be re-run after every token change; otherwise the format
+ * and file are picked and can be saved as the workspace default.
+ */
+async function exportColorTokens(): Promise<void> {
+    const contextual = decorationProvider?.getContextualColorsMap();
+    if (!contextual || contextual.size === 0) {
+        vscode.window.showInformationMessage('True Colors: No color tokens found to export.');
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('trueColors');
+    const configuredPath = config.get<string>('exportPath', '').trim();
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    let format = config.get<ExportFormat>('exportFormat', 'dtcg');
+    let target: vscode.Uri | undefined;
+
+    if (configuredPath && (folder || path.isAbsolute(configuredPath))) {
+        target = path.isAbsolute(configuredPath) || !folder
+            ? vscode.Uri.file(configuredPath)
+            : vscode.Uri.joinPath(folder.uri, configuredPath);
+    } else {
+        const options = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => ({
+            label: EXPORT_FORMATS[value].label,
+            description: EXPORT_FORMATS[value].description,
+            picked: value === format,
+            value,
+        }));
+        const selected = await vscode.window.showQuickPick(options, { placeHolder: 'Export color tokens as' });
+        if (!selected) {
+            return;
+        }
+        format = selected.value;
+        const fileName = EXPORT_FORMATS[format].fileName;
+        target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+            saveLabel: 'Export',
+        });
+        if (!target) {
+            return;
+        }
+    }
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(exportTokens(contextual, format), 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`True Colors: Could not write ${target.fsPath}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(target, false);
+    log(`Exported ${contextual.size} color tokens as ${format} to ${relativePath}`);
+    if (configuredPath) {
+        vscode.window.showInformationMessage(`True Colors: Exported ${contextual.size} color tokens to ${relativePath}.`);
+        return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+        `True Colors: Exported ${contextual.size} color tokens to ${relativePath}.`,
+        'Save as Default'
+    );
+    if (choice) {
+        await config.update('exportFormat', format, vscode.ConfigurationTarget.Workspace);
+        await config.update('exportPath', relativePath, vscode.ConfigurationTarget.Workspace);
+    }
+}
+
+/**
+ * Detect the workspace's Tailwind major version from its package.json files.
+ */
+function detectTailwindVersionFromPackages(): TailwindVersion | undefined {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        try {
+            const pkg = JSON.parse(fs.readFileSync(path.join(folder.uri.fsPath, 'package.json'), 'utf8'));
+            const range: string | undefined = pkg.dependencies?.tailwindcss ?? pkg.devDependencies?.tailwindcss;
+            const major = range?.match(/(\d+)/)?.[1];
+            if (major) {
+                return parseInt(major, 10) >= 4 ? 4 : 3;
+            }
+        } catch (error) {
+            // No readable package.json in this folder
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Apply the `trueColors.classAttributes` and `trueColors.classFunctions` settings.
+ */
+function applyClassSources(): void {
+    const config = vscode.workspace.getConfiguration('trueColors');
+    setClassSources(
+        config.get<string[]>('classAttributes', DEFAULT_CLASS_ATTRIBUTES) ?? DEFAULT_CLASS_ATTRIBUTES,
+        config.get<string[]>('classFunctions', DEFAULT_CLASS_FUNCTIONS) ?? DEFAULT_CLASS_FUNCTIONS
+    );
+}
+
+/**
+ * Apply the `trueColors.contextSelectors` setting.
+ */
+function applyContextSelectors(): void {
+    setContextSelectors(vscode.workspace.getConfiguration('trueColors').get<Record<string, string>>('contextSelectors', {}) ?? {});
+}
+
+/**
+ * Apply the `trueColors.tailwindVersion` setting. In 'auto' mode v4 is used when a
+ * stylesheet declares @theme / @import "tailwindcss" or package.json depends on tailwindcss 4.
+ */
+function applyTailwindVersion(): void {
+    const setting = vscode.workspace.getConfiguration('trueColors').get<string>('tailwindVersion', 'auto');
+    let version: TailwindVersion;
+    if (setting === '3' || setting === '4') {
+        version = setting === '4' ? 4 : 3;
+    } else {
+        version = decorationProvider?.usesTailwindV4() ? 4 : detectTailwindVersionFromPackages() ?? 3;
+    }
+    setTailwindVersion(version, decorationProvider?.getThemeResets() ?? []);
+    setCssCustomVariants(decorationProvider?.getCustomVariants() ?? []);
+    log(`Using Tailwind v${version} class semantics (setting: ${setting})`);
+}
+
+/**
+ * Whether a change to this file can change the color registry. Component files are
+ * skipped unless they declare a <style> block now or did at the last scan.
+ */
+function affectsColorIndex(uri: vscode.Uri): boolean {
+    if (!COMPONENT_FILE_PATTERN.test(uri.fsPath)) {
+        return true;
+    }
+    if (styledComponentFiles.has(uri.fsPath)) {
+        return true;
+    }
+    try {
+        return /<style\b/i.test(fs.readFileSync(uri.fsPath, 'utf8'));
+    } catch (error) {
+        return false; // deleted or unreadable, and it had no styles
+    }
+}
+
+/**
+ * Re-index the workspace. Runs are serialized so an older scan can never finish last;
+ * requests made while a scan is running share a single follow-up scan.
+ */
+function initializeColorVariables(): Promise<void> {
+    if (!queuedIndexRun) {
+        const run = indexRun.then(() => {
+            queuedIndexRun = undefined;
+            return scanWorkspaceColors();
+        });
+        queuedIndexRun = run;
+        indexRun = run.catch(() => undefined);
+    }
+    return queuedIndexRun;
+}
+
+async function scanWorkspaceColors() {
     log('========================================');
     log('Starting initialization...');
+    await loadTailwindConfig();
     log('Scanning workspace for CSS files...');
     
-    // Find all CSS files in workspace (increased limit and better exclusions)
-    const cssFiles = await vscode.workspace.findFiles(
-        '**/*.css', 
-        '{**/node_modules/**,**/dist/**,**/build/**,**/.next/**}',
-        500
-    );
+    // Find all CSS files and <style>-bearing component files in workspace (increased limit and better exclusions)
+    const cssFiles = [
+        ...await vscode.workspace.findFiles(STYLESHEET_GLOB, EXCLUDE_GLOB, 500),
+        ...await vscode.workspace.findFiles(COMPONENT_FILE_GLOB, EXCLUDE_GLOB, 500),
+    ];
     
     log(`Found ${cssFiles.length} CSS files:`);
     cssFiles.forEach(file => log(`  - ${file.fsPath}`));
     
     // Scan each CSS file to build global color variable registry (merge so all files' contexts are kept)
+    const styledFiles = new Set<string>();
     cssFiles.forEach((fileUri, index) => {
         try {
             // Check file size before reading (skip files > 1MB for performance)
@@ -440,7 +1019,13 @@ async function initializeColorVariables() {
             }
 
             // Read file directly using fs instead of openTextDocument to avoid 50MB limit
-            const fileContent = fs.readFileSync(fileUri.fsPath, 'utf8');
+            const rawContent = fs.readFileSync(fileUri.fsPath, 'utf8');
+            // Vue/Svelte/Astro/HTML: only <style> blocks are stylesheet content
+            const isComponent = COMPONENT_FILE_PATTERN.test(fileUri.fsPath);
+            const fileContent = isComponent ? extractStyleBlocks(rawContent) : rawContent;
+            if (isComponent && /<style\b/i.test(rawContent)) {
+                styledFiles.add(fileUri.fsPath);
+            }
             // First file replaces; subsequent files merge so multi-file contexts (e.g. .light in one file, .dark in another) are accumulated
             decorationProvider?.scanCssContentForColors(fileUri.fsPath, fileContent, index > 0 ? { merge: true } : undefined);
             log(`Successfully scanned: ${fileUri.fsPath}`);
@@ -449,11 +1034,33 @@ async function initializeColorVariables() {
         }
     });
     
+    styledComponentFiles = styledFiles;
+
+    // W3C Design Tokens / Tokens Studio JSON feed the same registry
+    const tokenFiles = await findDesignTokenFiles();
+    tokenFiles.forEach((fileUri, index) => {
+        try {
+            const stats = fs.statSync(fileUri.fsPath);
+            if (stats.size > 1024 * 1024) {
+                log(`Skipping large file (${(stats.size / 1024 / 1024).toFixed(2)}MB): ${fileUri.fsPath}`);
+                return;
+            }
+            const fileContent = fs.readFileSync(fileUri.fsPath, 'utf8');
+            const source = designTokenSource(fileUri.fsPath);
+            decorationProvider?.scanDesignTokenContent(fileUri.fsPath, fileContent, source, cssFiles.length > 0 || index > 0 ? { merge: true } : undefined);
+            log(`Successfully scanned design tokens: ${fileUri.fsPath} (set: ${source.setName})`);
+        } catch (error) {
+            log(`Error scanning ${fileUri.fsPath}: ${error}`);
+        }
+    });
+
     log('Initialization complete');
     log(`Total color variables in registry: ${decorationProvider?.getColorVariableCount()}`);
     log(`Detected contexts: ${decorationProvider?.getDetectedContexts().join(', ')}`);
     log('========================================');
     
+    applyTailwindVersion();
+
     // Apply color mode setting
     const config = vscode.workspace.getConfiguration('trueColors');
     const mode = config.get<string>('colorMode', 'auto');
@@ -464,16 +1071,21 @@ async function initializeColorVariables() {
     if (decorationProvider && hoverProvider) {
         hoverProvider.updateGlobalVariables(decorationProvider.getGlobalColorVariables());
         hoverProvider.updateContextualVariables(decorationProvider.getContextualColorsMap());
+        hoverProvider.updateVariableValues(decorationProvider.getVariableValues());
+        hoverProvider.updateDefinitionLocations(decorationProvider.getDefinitionLocations());
+        tokenTreeProvider?.refresh();
+        palettePanel?.refresh();
+        duplicateReport?.refresh();
     }
     
     // Now update all currently visible editors with the loaded colors
     const enabledLanguages = getEnabledLanguages();
     vscode.window.visibleTextEditors.forEach((editor) => {
-        if (enabledLanguages.has(editor.document.languageId)) {
+        if (enabledLanguages.has(editor.document.languageId) || isDesignTokenDocument(editor.document)) {
             log(`Updating visible editor: ${editor.document.fileName} (language: ${editor.document.languageId})`);
-            decorationProvider?.updateDecorations(editor.document);
+            updateDocument(editor.document);
         } else {
-            decorationProvider?.clearDocumentColors(editor.document.uri.toString());
+            clearDocument(editor.document.uri);
         }
     });
 }
@@ -1,19 +1,47 @@
 import * as vscode from 'vscode';
-import { toRgbaString, ParsedColor } from './colorParser';
-import { parseTailwindClass, resolveTailwindColor } from './tailwindParser';
-import { ContextColor } from './colorDecorationProvider';
+import * as path from 'path';
+import { toRgbaString, ParsedColor, applyChannelSpace } from './colorParser';
+import {
+    parseTailwindClass,
+    resolveTailwindClassColor,
+    resolveOpacityModifier,
+    applyOpacity,
+    findClassVariable,
+    TailwindClassInfo,
+} from './tailwindParser';
+import { checkerboardDefs } from './swatchSvg';
+import { findVariableAtPosition, findClassAtPosition } from './symbolAtPosition';
+import { ContextColor, DefinitionLocation } from './colorDecorationProvider';
 
 export class CssVariableHoverProvider implements vscode.HoverProvider {
     private contextualColorVariables: Map<string, ContextColor[]> = new Map();
+    private variableValues: Map<string, string> = new Map();
+    private definitionLocations: Map<string, DefinitionLocation[]> = new Map();
 
     constructor(private globalColorVariables: Map<string, ParsedColor>) {}
 
     private swatchMd(colorString: string, size = 14): string {
-        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><rect width="${size}" height="${size}" rx="2" fill="${colorString}"/><rect width="${size}" height="${size}" rx="2" fill="none" stroke="rgba(128,128,128,0.4)" stroke-width="1"/></svg>`;
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${checkerboardDefs}<rect width="${size}" height="${size}" rx="2" fill="url(#tc-checker)"/><rect width="${size}" height="${size}" rx="2" fill="${colorString}"/><rect width="${size}" height="${size}" rx="2" fill="none" stroke="rgba(128,128,128,0.4)" stroke-width="1"/></svg>`;
         const b64 = Buffer.from(svg).toString('base64');
         return `![](data:image/svg+xml;base64,${b64})`;
     }
 
+    /**
+     * Shows the value as written, followed by its sRGB channels when it was not
+     * already written as channels (e.g. `oklch(0.7 0.15 250)` → `75 163 247`).
+     * Aliases are prefixed with their resolution chain (`--button-bg → --blue-600 → …`).
+     */
+    private formatColorValue(color: ParsedColor, chain?: string[]): string {
+        const prefix = chain && chain.length > 0 ? `${chain.join(' → ')} → ` : '';
+        const channels = color.alpha !== undefined
+            ? `${color.red} ${color.green} ${color.blue} / ${color.alpha}`
+            : `${color.red} ${color.green} ${color.blue}`;
+        if (!color.format || (color.format === 'channels' && color.channelSpace === 'rgb')) {
+            return prefix + channels;
+        }
+        return `${prefix}${color.originalText}\` → \`${channels}`;
+    }
+
     public provideHover(
         document: vscode.TextDocument,
         position: vscode.Position,
@@ -22,28 +50,37 @@ export class CssVariableHoverProvider implements vscode.HoverProvider {
         const line = document.lineAt(position.line).text;
         
         // First, try to match CSS variable
-        const varName = this.getVariableNameAtPosition(line, position.character);
-        if (varName) {
+        const variable = findVariableAtPosition(line, position.character, (varName) => this.globalColorVariables.has(varName));
+        if (variable) {
+            const { varName, channelSpace } = variable;
             const color = this.globalColorVariables.get(varName);
             if (color) {
-                const contextColors = this.contextualColorVariables.get(varName);
-                return this.createCssVariableHover(varName, color, contextColors);
+                // hsl(var(--x)) reads a channel-list variable as HSL, rgb(var(--x)) as RGB, etc.
+                const contextColors = this.contextualColorVariables.get(varName)
+                    ?.map((contextColor) => ({ ...contextColor, color: applyChannelSpace(contextColor.color, channelSpace) }));
+                return this.createCssVariableHover(varName, applyChannelSpace(color, channelSpace), contextColors);
             }
         }
         
         // Second, try to match Tailwind class
-        const tailwindClass = this.getTailwindClassAtPosition(line, position.character);
+        const tailwindClass = findClassAtPosition(document, position)?.name;
         if (tailwindClass) {
             const classInfo = parseTailwindClass(tailwindClass);
             if (classInfo) {
-                const color = resolveTailwindColor(classInfo.colorName, this.globalColorVariables);
+                const color = resolveTailwindClassColor(classInfo, this.globalColorVariables, this.variableValues);
                 if (color) {
+                    const opacity = classInfo.opacityModifier
+                        ? resolveOpacityModifier(classInfo.opacityModifier, this.variableValues)
+                        : undefined;
                     // Try to find the underlying CSS variable so we can show context info
-                    const resolvedVarName = this.findResolvedCssVar(classInfo.colorName);
+                    const resolvedVarName = findClassVariable(classInfo.colorName, this.contextualColorVariables);
                     const contextColors = resolvedVarName
-                        ? this.contextualColorVariables.get(resolvedVarName)
+                        ? this.contextualColorVariables.get(resolvedVarName)?.map((contextColor) => ({
+                            ...contextColor,
+                            color: opacity === undefined ? contextColor.color : applyOpacity(contextColor.color, opacity),
+                        }))
                         : undefined;
-                    return this.createTailwindClassHover(tailwindClass, classInfo, color, contextColors);
+                    return this.createTailwindClassHover(tailwindClass, classInfo, color, contextColors, opacity, resolvedVarName);
                 }
             }
         }
@@ -58,24 +95,21 @@ export class CssVariableHoverProvider implements vscode.HoverProvider {
         markdown.supportHtml = true;
         markdown.isTrusted = true;
 
-        markdown.appendMarkdown(`**CSS Variable**: \`${varName}\`\n\n`);
+        const kind = varName.startsWith('$') ? 'Sass Variable' : varName.startsWith('@') ? 'Less Variable' : 'CSS Variable';
+        markdown.appendMarkdown(`**${kind}**: \`${varName}\`\n\n`);
 
         if (contextColors && contextColors.length > 0) {
-            for (const { context, color: ctxColor } of contextColors) {
+            for (const { context, color: ctxColor, chain } of contextColors) {
                 const cs = toRgbaString(ctxColor);
-                const rs = ctxColor.alpha !== undefined
-                    ? `${ctxColor.red} ${ctxColor.green} ${ctxColor.blue} / ${ctxColor.alpha}`
-                    : `${ctxColor.red} ${ctxColor.green} ${ctxColor.blue}`;
+                const rs = this.formatColorValue(ctxColor, chain);
                 const isActive = cs === colorString;
                 const label = context === 'global' ? `global` : `.${context}`;
                 const activeMark = isActive ? ' *(active)*' : '';
-                markdown.appendMarkdown(`**${label}**${activeMark} &nbsp;${this.swatchMd(cs)} \`${rs}\`\n\n`);
+                markdown.appendMarkdown(`**${label}**${activeMark} &nbsp;${this.swatchMd(cs)} \`${rs}\`${this.definitionLinks(varName, context)}\n\n`);
             }
         } else {
-            const rgbString = color.alpha !== undefined
-                ? `${color.red} ${color.green} ${color.blue} / ${color.alpha}`
-                : `${color.red} ${color.green} ${color.blue}`;
-            markdown.appendMarkdown(`${this.swatchMd(colorString)} \`${rgbString}\``);
+            const rgbString = this.formatColorValue(color);
+            markdown.appendMarkdown(`${this.swatchMd(colorString)} \`${rgbString}\`${this.definitionLinks(varName)}`);
         }
 
         return new vscode.Hover(markdown);
@@ -83,9 +117,11 @@ export class CssVariableHoverProvider implements vscode.HoverProvider {
 
     private createTailwindClassHover(
         className: string,
-        classInfo: { type: string; colorName: string },
+        classInfo: TailwindClassInfo,
         color: ParsedColor,
-        contextColors?: ContextColor[]
+        contextColors?: ContextColor[],
+        opacity?: number,
+        varName?: string
     ): vscode.Hover {
         const colorString = toRgbaString(color);
 
@@ -95,135 +131,47 @@ export class CssVariableHoverProvider implements vscode.HoverProvider {
 
         markdown.appendMarkdown(`**Tailwind Class**: \`${className}\` · *${classInfo.type}*\n\n`);
 
+        if (classInfo.variants && classInfo.variants.length > 0) {
+            markdown.appendMarkdown(`applies on: ${classInfo.variants.map((v) => `\`${v}\``).join(' · ')}\n\n`);
+        }
+        if (classInfo.important) {
+            markdown.appendMarkdown(`*!important*\n\n`);
+        }
+
+        if (opacity !== undefined) {
+            // Swatches below are composited against a checkerboard
+            markdown.appendMarkdown(`\`${classInfo.colorName}\` at ${Math.round(opacity * 1000) / 10}%\n\n`);
+        }
+
         if (contextColors && contextColors.length > 0) {
-            for (const { context, color: ctxColor } of contextColors) {
+            for (const { context, color: ctxColor, chain } of contextColors) {
                 const cs = toRgbaString(ctxColor);
-                const rs = ctxColor.alpha !== undefined
-                    ? `${ctxColor.red} ${ctxColor.green} ${ctxColor.blue} / ${ctxColor.alpha}`
-                    : `${ctxColor.red} ${ctxColor.green} ${ctxColor.blue}`;
+                const rs = this.formatColorValue(ctxColor, chain);
                 const isActive = cs === colorString;
                 const label = context === 'global' ? `global` : `.${context}`;
                 const activeMark = isActive ? ' *(active)*' : '';
-                markdown.appendMarkdown(`**${label}**${activeMark} &nbsp;${this.swatchMd(cs)} \`${rs}\`\n\n`);
+                const links = varName ? this.definitionLinks(varName, context) : '';
+                markdown.appendMarkdown(`**${label}**${activeMark} &nbsp;${this.swatchMd(cs)} \`${rs}\`${links}\n\n`);
             }
         } else {
-            const rgbString = color.alpha !== undefined
-                ? `${color.red} ${color.green} ${color.blue} / ${color.alpha}`
-                : `${color.red} ${color.green} ${color.blue}`;
+            const rgbString = this.formatColorValue(color);
             markdown.appendMarkdown(`${this.swatchMd(colorString)} \`${rgbString}\``);
         }
 
         return new vscode.Hover(markdown);
     }
 
-    private findResolvedCssVar(colorName: string): string | undefined {
-        // Mirror the lookup order in resolveTailwindColor to find the CSS variable name
-        const candidates = [
-            `--${colorName}`,
-            colorName.startsWith('txt-') ? `--text-${colorName.substring(4)}` : null,
-        ].filter(Boolean) as string[];
-
-        for (const candidate of candidates) {
-            if (this.contextualColorVariables.has(candidate)) {
-                return candidate;
-            }
-        }
-
-        // Fuzzy match: find a contextual variable whose name ends with the color name
-        const normalizedColor = colorName.toLowerCase().replace(/_/g, '-');
-        for (const key of this.contextualColorVariables.keys()) {
-            const varName = key.startsWith('--') ? key.substring(2) : key;
-            const normalized = varName.toLowerCase().replace(/_/g, '-');
-            if (normalized === normalizedColor || normalized.endsWith(`-${normalizedColor}`)) {
-                return key;
-            }
-        }
-
-        return undefined;
-    }
-
-    private getVariableNameAtPosition(line: string, character: number): string | null {
-        // Match patterns: var(--name), rgba(var(--name)), etc.
-        const patterns = [
-            /var\s*\(\s*(--[\w-]+)/g,
-            /rgba?\s*\(\s*var\s*\(\s*(--[\w-]+)/g,
-            /hsla?\s*\(\s*var\s*\(\s*(--[\w-]+)/g,
-        ];
-
-        for (const pattern of patterns) {
-            let match;
-            while ((match = pattern.exec(line)) !== null) {
-                const varName = match[1];
-                const start = match.index + match[0].indexOf(varName);
-                const end = start + varName.length;
-
-                if (character >= start && character <= end) {
-                    return varName;
-                }
-            }
-            pattern.lastIndex = 0;
-        }
-
-        // Match CSS variable definitions: --varname: value;
-        // Covers both hovering on the name and on the value.
-        const defPattern = /(--[\w-]+)\s*:\s*([^;]+);?/g;
-        let match;
-        while ((match = defPattern.exec(line)) !== null) {
-            const varName = match[1];
-            const nameStart = match.index;
-            const nameEnd = nameStart + varName.length;
-            // Cursor is on the variable name
-            if (character >= nameStart && character <= nameEnd) {
-                return varName;
-            }
-            // Cursor is on the value portion
-            const valueStart = nameStart + match[0].indexOf(match[2]);
-            const valueEnd = valueStart + match[2].trimEnd().length;
-            if (character >= valueStart && character <= valueEnd) {
-                return varName;
-            }
-        }
-
-        return null;
-    }
-
-    private getTailwindClassAtPosition(line: string, character: number): string | null {
-        // Extract word at position
-        const wordRange = this.getWordRangeAtPosition(line, character);
-        if (!wordRange) {
-            return null;
-        }
-        
-        const word = line.substring(wordRange.start, wordRange.end);
-        
-        // Check if it's a valid Tailwind class
-        if (parseTailwindClass(word)) {
-            return word;
-        }
-        
-        return null;
-    }
-
-    private getWordRangeAtPosition(line: string, character: number): { start: number; end: number } | null {
-        // Find word boundaries (alphanumeric, hyphens, underscores)
-        let start = character;
-        let end = character;
-        
-        // Move start backwards
-        while (start > 0 && /[a-zA-Z0-9\-_]/.test(line[start - 1])) {
-            start--;
-        }
-        
-        // Move end forwards
-        while (end < line.length && /[a-zA-Z0-9\-_]/.test(line[end])) {
-            end++;
-        }
-        
-        if (start === end) {
-            return null;
-        }
-        
-        return { start, end };
+    /**
+     * Links to the declarations of a variable (in one context, if given), e.g.
+     * ` · theme.css:12`, opening the file at that line.
+     */
+    private definitionLinks(varName: string, context?: string): string {
+        const locations = (this.definitionLocations.get(varName) ?? [])
+            .filter((location) => context === undefined || location.context === context);
+        return locations.map((location) => {
+            const uri = vscode.Uri.file(location.fileName).with({ fragment: `L${location.line + 1},${location.character + 1}` });
+            return ` · [${path.basename(location.fileName)}:${location.line + 1}](${uri.toString()})`;
+        }).join('');
     }
 
     public updateGlobalVariables(variables: Map<string, ParsedColor>): void {
@@ -233,4 +181,12 @@ export class CssVariableHoverProvider implements vscode.HoverProvider {
     public updateContextualVariables(contextualVars: Map<string, ContextColor[]>): void {
         this.contextualColorVariables = contextualVars;
     }
+
+    public updateVariableValues(variableValues: Map<string, string>): void {
+        this.variableValues = variableValues;
+    }
+
+    public updateDefinitionLocations(definitionLocations: Map<string, DefinitionLocation[]>): void {
+        this.definitionLocations = definitionLocations;
+    }
 }
@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import { parseColorValue, ParsedColor } from './colorParser';
+import { deltaEOK, Vec3 } from './colorConversions';
+import { findVarReferences } from './aliasResolver';
+import {
+    parseTailwindClass,
+    resolveTailwindColor,
+    decodeArbitraryValue,
+    listClassColorNames,
+    getTailwindVersion,
+    TailwindClassInfo,
+} from './tailwindParser';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { findClassOccurrences } from './classDetector';
+import { extractStyleBlocks, STYLE_BLOCK_LANGUAGES, STYLESHEET_LANGUAGES } from './styleBlocks';
+import { parseCss, blankComments, walkDeclarations } from './cssParser';
+
+const HARDCODED_COLOR = 'hard-coded-color';
+const MAX_SUGGESTIONS = 3;
+
+const literalPattern = /(?<![\w&])#[0-9a-f]{3,8}\b|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)/gi;
+// Values of variable declarations, which define tokens rather than hard-code them
+// (outside stylesheets, which are parsed)
+const definitionPattern = /(?:--|\$|@)[\w-]+\s*:\s*([^;{}\n]+)/g;
+// Outside stylesheets '#abc' is also an anchor or an id: there a hex counts as a color in a
+// CSS value (style="color: #fff", styled-components) or as a whole string ('#fff', fill="#fff")
+const cssValueBeforePattern = /[\w-]\s*:\s*['"`]?[^;{}:'"`<>/=]*$/;
+const attributeBeforePattern = /([\w:.-]+)=\{?\s*$/;
+const colorAttributePattern = /color|fill|stroke|background|bg/i;
+// Tailwind configs define the palette classes use
+const tailwindConfigPattern = /(?:^|[\\/])tailwind\.config\.[cm]?[jt]s$/;
+
+interface Replacement {
+    text: string; // what replaces the literal (or the color part of a class)
+    token: string; // the token it reads, e.g. '--blue-600' or 'primary'
+    distance: number; // ΔEOK from the literal
+}
+
+/**
+ * Flags hard-coded color literals (`#2563eb`, `rgb(37 99 235)`, `bg-[#2563eb]`) whose
+ * color is within `trueColors.hardcodedColorTolerance` (ΔEOK) of an existing token, and
+ * offers to replace them with `var(--x)`, the channel form `rgb(var(--x))` for
+ * channel-list variables, a preprocessor variable in SCSS/Less, or a Tailwind color
+ * class where the literal is an arbitrary class value.
+ */
+export class LiteralDiagnostics implements vscode.Disposable, vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('trueColors.literals');
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public update(document: vscode.TextDocument): void {
+        const config = vscode.workspace.getConfiguration('trueColors');
+        if (!config.get<boolean>('hardcodedColorDiagnostics', true) || tailwindConfigPattern.test(document.fileName)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        // Blank out comments, keeping offsets; stylesheets and <style> blocks are parsed
+        const source = document.getText();
+        const styleText = STYLESHEET_LANGUAGES.has(document.languageId)
+            ? source
+            : STYLE_BLOCK_LANGUAGES.has(document.languageId) ? extractStyleBlocks(source) : undefined;
+        const stylesheet = styleText !== undefined ? parseCss(styleText) : undefined;
+        const text = stylesheet
+            ? blankComments(source, stylesheet)
+            : source.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+        const covered: Array<[number, number]> = [];
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        // bg-[#2563eb] → bg-primary
+        for (const occurrence of findClassOccurrences(text)) {
+            const info = parseTailwindClass(occurrence.name);
+            const value = info ? decodeArbitraryValue(info.colorName) : undefined;
+            if (!info || !value) {
+                continue;
+            }
+            covered.push([occurrence.start, occurrence.end]);
+            const color = value.includes('var(') ? null : parseColorValue(value);
+            const best = color ? this.classReplacements(info, color)[0] : undefined;
+            if (best) {
+                const message = `Arbitrary color '${occurrence.name}' matches '${info.type}-${best.text}'${formatDistance(best.distance)}`;
+                diagnostics.push(this.createDiagnostic(document, occurrence.start, occurrence.end, message));
+            }
+        }
+
+        // var(--x, #fff) fallbacks and token definitions are intentional
+        for (const reference of findVarReferences(text)) {
+            covered.push([reference.start, reference.end]);
+        }
+        if (stylesheet) {
+            walkDeclarations(stylesheet.children, ({ property, start, valueEnd }) => {
+                if (/^(?:--|\$|@)/.test(property)) {
+                    covered.push([start, valueEnd]);
+                }
+            });
+        } else {
+            definitionPattern.lastIndex = 0;
+            let definition;
+            while ((definition = definitionPattern.exec(text)) !== null) {
+                covered.push([definition.index, definition.index + definition[0].length]);
+            }
+        }
+
+        let match;
+        literalPattern.lastIndex = 0;
+        while ((match = literalPattern.exec(text)) !== null) {
+            const start = match.index;
+            const end = start + match[0].length;
+            if (covered.some(([from, to]) => start < to && end > from)) {
+                continue;
+            }
+            if (match[0].startsWith('#') && !STYLESHEET_LANGUAGES.has(document.languageId) && !isHexColorContext(text, start, end)) {
+                continue;
+            }
+            const color = parseColorValue(match[0]);
+            const best = color ? this.literalReplacements(color, document.languageId)[0] : undefined;
+            if (best) {
+                const message = `Hard-coded color '${match[0]}' matches '${best.token}'${formatDistance(best.distance)}`;
+                diagnostics.push(this.createDiagnostic(document, start, end, message));
+            }
+        }
+
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    public clear(uri: vscode.Uri): void {
+        this.collection.delete(uri);
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'True Colors' || diagnostic.code !== HARDCODED_COLOR) {
+                continue;
+            }
+            const text = document.getText(diagnostic.range);
+            const info = parseTailwindClass(text);
+            const value = info ? decodeArbitraryValue(info.colorName) : undefined;
+
+            if (info && value) {
+                // Replace only the color, keeping variants and the opacity modifier: hover:bg-[#2563eb]/50
+                const color = parseColorValue(value);
+                const utility = `${info.type}-${info.colorName}`;
+                const colorStart = document.offsetAt(diagnostic.range.start) + text.lastIndexOf(utility) + info.type.length + 1;
+                const colorRange = new vscode.Range(
+                    document.positionAt(colorStart),
+                    document.positionAt(colorStart + info.colorName.length)
+                );
+                (color ? this.classReplacements(info, color) : []).forEach((replacement, index) => {
+                    const title = `Replace with '${info.type}-${replacement.text}'${formatDistance(replacement.distance)}`;
+                    actions.push(this.replaceAction(document, diagnostic, colorRange, replacement.text, title, index === 0));
+                });
+                continue;
+            }
+
+            const color = parseColorValue(text);
+            (color ? this.literalReplacements(color, document.languageId) : []).forEach((replacement, index) => {
+                const title = `Replace with '${replacement.text}'${formatDistance(replacement.distance)}`;
+                actions.push(this.replaceAction(document, diagnostic, diagnostic.range, replacement.text, title, index === 0));
+            });
+        }
+
+        return actions;
+    }
+
+    /**
+     * Variables matching a literal, written the way the file can use them. Channel-list
+     * variables keep the literal's alpha: `rgb(37 99 235 / 50%)` → `rgb(var(--blue-600) / 0.5)`.
+     */
+    private literalReplacements(color: ParsedColor, languageId: string): Replacement[] {
+        // Preprocessor variables only exist in their own language
+        const sigils = languageId === 'scss' || languageId === 'sass' ? ['--', '$'] : languageId === 'less' ? ['--', '@'] : ['--'];
+        const replacements: Replacement[] = [];
+
+        this.decorationProvider.getContextualColorsMap().forEach((contextColors, varName) => {
+            // A literal looks the same in every theme, so compare with the value outside any
+            // theme; tokens defined in a single context have only that value
+            const candidate = (contextColors.find(({ context }) => context === 'global') ?? (contextColors.length === 1 ? contextColors[0] : undefined))?.color;
+            if (!candidate || !sigils.some((sigil) => varName.startsWith(sigil)) || varName.includes('.')) {
+                return;
+            }
+            const isChannels = candidate.format === 'channels';
+            // Complete colors carry their own alpha; channel lists take the literal's
+            if (!isChannels && Math.abs((candidate.alpha ?? 1) - (color.alpha ?? 1)) > 0.01) {
+                return;
+            }
+            const distance = colorDistance(color, candidate);
+            if (distance > getTolerance()) {
+                return;
+            }
+            let text: string;
+            if (!varName.startsWith('--')) {
+                text = varName;
+            } else if (isChannels) {
+                const alpha = (color.alpha ?? 1) < 1 ? ` / ${Math.round((color.alpha ?? 1) * 1000) / 1000}` : '';
+                text = `${candidate.channelSpace ?? 'rgb'}(var(${varName})${alpha})`;
+            } else {
+                text = `var(${varName})`;
+            }
+            replacements.push({ text, token: varName, distance });
+        });
+
+        return sortReplacements(replacements);
+    }
+
+    /**
+     * Class colors matching an arbitrary value: named colors first (`primary`,
+     * `blue-600`), then the arbitrary variable form (`[var(--x)]`, or `(--x)` in v4).
+     */
+    private classReplacements(info: TailwindClassInfo, color: ParsedColor): Replacement[] {
+        const customColorMap = this.decorationProvider.getGlobalColorVariables();
+        const named: Replacement[] = [];
+        for (const colorName of listClassColorNames(customColorMap)) {
+            const candidate = resolveTailwindColor(colorName, customColorMap);
+            if (candidate && Math.abs((candidate.alpha ?? 1) - (color.alpha ?? 1)) <= 0.01) {
+                const distance = colorDistance(color, candidate);
+                if (distance <= getTolerance()) {
+                    named.push({ text: colorName, token: `${info.type}-${colorName}`, distance });
+                }
+            }
+        }
+
+        const variables = this.literalReplacements(color, 'css')
+            .filter(({ text }) => text.startsWith('var('))
+            .map((replacement) => ({
+                ...replacement,
+                text: getTailwindVersion() === 4 ? `(${replacement.token})` : `[${replacement.text}]`,
+            }));
+
+        return [...sortReplacements(named), ...variables].slice(0, MAX_SUGGESTIONS);
+    }
+
+    private replaceAction(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        range: vscode.Range,
+        replacement: string,
+        title: string,
+        isPreferred: boolean
+    ): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = isPreferred;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, range, replacement);
+        return action;
+    }
+
+    private createDiagnostic(document: vscode.TextDocument, start: number, end: number, message: string): vscode.Diagnostic {
+        const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Information);
+        diagnostic.source = 'True Colors';
+        diagnostic.code = HARDCODED_COLOR;
+        return diagnostic;
+    }
+}
+
+function isHexColorContext(text: string, start: number, end: number): boolean {
+    const before = text.substring(Math.max(0, start - 200), start);
+    if (cssValueBeforePattern.test(before)) {
+        return true;
+    }
+    const quote = text[start - 1];
+    if (!quote || !`'"\``.includes(quote) || text[end] !== quote) {
+        return false;
+    }
+    // href="#add" is an anchor, fill="#fff" and :color="'#fff'" are colors
+    const attribute = before.substring(0, before.length - 1).match(attributeBeforePattern);
+    return !attribute || colorAttributePattern.test(attribute[1]);
+}
+
+function getTolerance(): number {
+    return vscode.workspace.getConfiguration('trueColors').get<number>('hardcodedColorTolerance', 1);
+}
+
+function colorDistance(first: ParsedColor, second: ParsedColor): number {
+    const toVec = (color: ParsedColor): Vec3 => [color.red / 255, color.green / 255, color.blue / 255];
+    return deltaEOK(toVec(first), toVec(second));
+}
+
+// Closest first, then alphabetical so the order is stable
+function sortReplacements(replacements: Replacement[]): Replacement[] {
+    return replacements
+        .sort((a, b) => a.distance - b.distance || a.token.localeCompare(b.token))
+        .slice(0, MAX_SUGGESTIONS);
+}
+
+// Exact matches need no qualifier
+function formatDistance(distance: number): string {
+    return distance < 0.05 ? '' : ` (ΔE ${distance.toFixed(1)})`;
+}
@@ -0,0 +1,99 @@
+import { ParsedColor, toRgbaString } from './colorParser';
+import { ContextColor } from './colorDecorationProvider';
+import { compareContexts } from './selectorContexts';
+import { deltaE2000 } from './colorConversions';
+
+export interface DuplicateMember {
+    varName: string;
+    text: string;
+    rgba: string;
+    inherited: boolean; // the global value, because the context does not redefine the token
+    aliasOf?: string; // the variable an alias resolves through, e.g. '--blue-600'
+}
+
+/**
+ * Tokens in one context whose colors are all linked by pairs within the threshold.
+ */
+export interface DuplicateCluster {
+    context: string;
+    members: DuplicateMember[];
+    maxDistance: number; // largest ΔE00 between two members
+}
+
+/**
+ * Clusters tokens per context: single-linkage over pairs within `threshold` ΔE00
+ * with the same alpha. In a detected context a token has its own value there, or
+ * else its global one; clusters made only of global values are reported once, under global.
+ */
+export function findNearDuplicates(
+    contextual: Map<string, ContextColor[]>,
+    detectedContexts: string[],
+    threshold: number
+): DuplicateCluster[] {
+    const clusters: DuplicateCluster[] = [];
+
+    for (const context of ['global', ...detectedContexts.slice().sort(compareContexts)]) {
+        const tokens: Array<{ varName: string; color: ParsedColor; root: string; inherited: boolean; aliasOf?: string }> = [];
+        contextual.forEach((contextColors, varName) => {
+            const own = contextColors.find((candidate) => candidate.context === context);
+            const effective = own ?? contextColors.find((candidate) => candidate.context === 'global');
+            if (effective) {
+                // The variable an alias chain ends at; tokens sharing it are linked on purpose
+                const root = effective.chain?.[effective.chain.length - 1] ?? varName;
+                tokens.push({ varName, color: effective.color, root, inherited: !own, aliasOf: effective.chain?.[1] });
+            }
+        });
+        tokens.sort((a, b) => a.varName.localeCompare(b.varName));
+
+        // Union-find over the pairs within the threshold
+        const parents = tokens.map((_token, index) => index);
+        const find = (index: number): number => (parents[index] === index ? index : (parents[index] = find(parents[index])));
+        const vectors = tokens.map(({ color }): [number, number, number] => [color.red / 255, color.green / 255, color.blue / 255]);
+        for (let i = 0; i < tokens.length; i++) {
+            for (let j = i + 1; j < tokens.length; j++) {
+                if (tokens[i].root === tokens[j].root || Math.abs((tokens[i].color.alpha ?? 1) - (tokens[j].color.alpha ?? 1)) > 0.01) {
+                    continue;
+                }
+                if (deltaE2000(vectors[i], vectors[j]) <= threshold) {
+                    parents[find(j)] = find(i);
+                }
+            }
+        }
+
+        const groups = new Map<number, number[]>();
+        tokens.forEach((_token, index) => {
+            const group = groups.get(find(index)) ?? [];
+            group.push(index);
+            groups.set(find(index), group);
+        });
+
+        groups.forEach((indexes) => {
+            // Collisions between inherited values are the global cluster again
+            if (indexes.length < 2 || (context !== 'global' && indexes.every((index) => tokens[index].inherited))) {
+                return;
+            }
+            let maxDistance = 0;
+            for (let i = 0; i < indexes.length; i++) {
+                for (let j = i + 1; j < indexes.length; j++) {
+                    maxDistance = Math.max(maxDistance, deltaE2000(vectors[indexes[i]], vectors[indexes[j]]));
+                }
+            }
+            clusters.push({
+                context,
+                members: indexes.map((index) => ({
+                    varName: tokens[index].varName,
+                    text: tokens[index].color.originalText,
+                    rgba: toRgbaString(tokens[index].color),
+                    inherited: tokens[index].inherited,
+                    aliasOf: tokens[index].aliasOf,
+                })),
+                maxDistance: Math.round(maxDistance * 100) / 100,
+            });
+        });
+    }
+
+    // Largest clusters first, exact duplicates before near ones
+    return clusters.sort((a, b) =>
+        compareContexts(a.context, b.context) || b.members.length - a.members.length || a.maxDistance - b.maxDistance
+    );
+}
@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import { ParsedColor, toRgbaString } from './colorParser';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { compareContexts } from './selectorContexts';
+import { wcagContrast, WCAG_MINIMUMS, WcagLevel } from './contrast';
+
+/**
+ * One token's value in one context column. `inherited` values come from the
+ * global declaration because the context does not redefine the token.
+ */
+interface PaletteCell {
+    context: string;
+    text?: string;
+    rgba?: string;
+    inherited: boolean;
+    contrast?: number; // WCAG ratio against the background token in the same context
+    lowContrast: boolean;
+}
+
+interface PaletteRow {
+    varName: string;
+    cells: PaletteCell[];
+    missing: boolean; // no value at all in some detected context
+    identical: boolean; // redefined per context, but to the same color everywhere
+    differs: boolean; // resolves to different colors across contexts
+}
+
+// Messages posted by the webview script
+type PaletteMessage =
+    | { type: 'ready' }
+    | { type: 'reveal'; varName: string; context: string }
+    | { type: 'background'; varName: string };
+
+// Names of text colors, checked against the background token: --text-muted, --foreground, --on-primary
+const foregroundNamePattern = /(?:^|[-_.$@])(?:text|foreground|fg|on)(?:$|[-_])/i;
+// Names of page backgrounds, picked as the default background token
+const backgroundNamePattern = /^(?:--|\$|@)(?:color-)?(?:background|bg|surface)(?:$|-(?:default|base|primary)$)/i;
+
+/**
+ * Webview listing every color token in a grid, one column per detected context, so a
+ * theme can be reviewed side by side. Cells are highlighted when a token is missing
+ * from a context, is redefined to the same color in every context, or (for text
+ * tokens) falls below `trueColors.contrastLevel` on the chosen background token.
+ */
+export class ThemePalettePanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private background: string | undefined; // '' once the user picks none
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'trueColors.palette',
+            'Theme Palette',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        this.panel.webview.html = getHtml(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage((message: PaletteMessage) => this.handleMessage(message));
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    /**
+     * Re-sends the grid to an open panel, after the registry is rebuilt.
+     */
+    public refresh(): void {
+        if (this.panel) {
+            this.panel.webview.postMessage({ type: 'update', ...this.buildPalette() });
+        }
+    }
+
+    public dispose(): void {
+        this.panel?.dispose();
+    }
+
+    private async handleMessage(message: PaletteMessage): Promise<void> {
+        if (message.type === 'ready') {
+            this.refresh();
+        } else if (message.type === 'background') {
+            this.background = message.varName;
+            this.refresh();
+        } else if (message.type === 'reveal') {
+            const locations = this.decorationProvider.getDefinitionLocations().get(message.varName) ?? [];
+            const location = locations.find((candidate) => candidate.context === message.context)
+                ?? locations.find((candidate) => candidate.context === 'global')
+                ?? locations[0];
+            if (!location) {
+                vscode.window.showInformationMessage(`True Colors: No declaration found for ${message.varName}.`);
+                return;
+            }
+            // Open beside the grid rather than replacing it
+            const viewColumn = vscode.window.visibleTextEditors[0]?.viewColumn ?? vscode.ViewColumn.Beside;
+            const position = new vscode.Position(location.line, location.character);
+            await vscode.window.showTextDocument(vscode.Uri.file(location.fileName), {
+                viewColumn,
+                selection: new vscode.Range(position, position),
+            });
+        }
+    }
+
+    private buildPalette(): { contexts: string[]; rows: PaletteRow[]; backgrounds: string[]; background?: string } {
+        const contextual = this.decorationProvider.getContextualColorsMap();
+        const detected = this.decorationProvider.getDetectedContexts().sort(compareContexts);
+        const hasGlobal = Array.from(contextual.values()).some((contextColors) => contextColors.some(({ context }) => context === 'global'));
+        const contexts = detected.length === 0 || hasGlobal ? ['global', ...detected] : detected;
+
+        const varNames = Array.from(contextual.keys()).sort();
+        if (this.background === undefined || (this.background && !contextual.has(this.background))) {
+            this.background = varNames.find((varName) => backgroundNamePattern.test(varName));
+        }
+        const backgroundColors = this.background ? toContextMap(contextual.get(this.background) ?? []) : undefined;
+
+        const level = vscode.workspace.getConfiguration('trueColors').get<string>('contrastLevel', 'AA');
+        const wcagMinimum = level in WCAG_MINIMUMS ? WCAG_MINIMUMS[level as WcagLevel] : undefined;
+
+        const rows = varNames.map((varName): PaletteRow => {
+            const colors = toContextMap(contextual.get(varName) ?? []);
+            const global = colors.get('global');
+            const isForeground = foregroundNamePattern.test(varName) && varName !== this.background;
+
+            const cells = contexts.map((context): PaletteCell => {
+                const own = colors.get(context);
+                const color = own ?? global;
+                if (!color) {
+                    return { context, inherited: false, lowContrast: false };
+                }
+                const backgroundColor = backgroundColors?.get(context) ?? backgroundColors?.get('global');
+                const contrast = backgroundColor && varName !== this.background ? wcagContrast(color, backgroundColor) : undefined;
+                return {
+                    context,
+                    text: color.originalText,
+                    rgba: toRgbaString(color),
+                    inherited: !own,
+                    contrast: contrast !== undefined ? Math.round(contrast * 100) / 100 : undefined,
+                    lowContrast: isForeground && contrast !== undefined && wcagMinimum !== undefined && contrast < wcagMinimum,
+                };
+            });
+
+            const values = cells.filter((cell) => cell.rgba).map((cell) => cell.rgba);
+            const ownValues = detected.map((context) => colors.get(context)).filter((color): color is ParsedColor => Boolean(color));
+            return {
+                varName,
+                cells,
+                missing: cells.some((cell) => !cell.rgba && cell.context !== 'global'),
+                identical: ownValues.length > 1 && new Set(ownValues.map(toRgbaString)).size === 1,
+                differs: new Set(values).size > 1,
+            };
+        });
+
+        return { contexts, rows, backgrounds: varNames, background: this.background || undefined };
+    }
+}
+
+function toContextMap(contextColors: { context: string; color: ParsedColor }[]): Map<string, ParsedColor> {
+    return new Map(contextColors.map(({ context, color }) => [context, color]));
+}
+
+function getHtml(webview: vscode.Webview): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Theme Palette</title>
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    .toolbar { position: sticky; top: 0; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 10px 0; background: var(--vscode-editor-background); z-index: 1; }
+    input[type=text], select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; }
+    input[type=text] { width: 220px; }
+    .legend span { margin-right: 10px; }
+    .count { opacity: 0.7; margin-left: auto; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.2)); }
+    th { position: sticky; top: 44px; background: var(--vscode-editor-background); font-weight: 600; }
+    td.name { font-family: var(--vscode-editor-font-family); white-space: nowrap; }
+    td.cell { cursor: pointer; min-width: 140px; }
+    td.cell:hover { background: var(--vscode-list-hoverBackground); }
+    .swatch { display: inline-block; width: 28px; height: 18px; margin-right: 6px; vertical-align: middle; border-radius: 3px; border: 1px solid rgba(128, 128, 128, 0.5);
+        background-image: linear-gradient(45deg, #ccc 25%, transparent 25%, transparent 75%, #ccc 75%), linear-gradient(45deg, #ccc 25%, #fff 25%, #fff 75%, #ccc 75%);
+        background-size: 8px 8px; background-position: 0 0, 4px 4px; position: relative; overflow: hidden; }
+    .swatch > i { position: absolute; inset: 0; }
+    .value { font-family: var(--vscode-editor-font-family); font-size: 0.9em; }
+    .inherited .value { opacity: 0.55; font-style: italic; }
+    .flag { display: inline-block; font-size: 0.8em; padding: 0 4px; margin-left: 4px; border-radius: 3px; }
+    .missing { outline: 2px dashed var(--vscode-editorError-foreground); outline-offset: -3px; }
+    .low { outline: 2px solid var(--vscode-editorWarning-foreground); outline-offset: -3px; }
+    .flag.missing-flag { background: var(--vscode-editorError-foreground); color: var(--vscode-editor-background); }
+    .flag.identical-flag { background: var(--vscode-editorInfo-foreground); color: var(--vscode-editor-background); }
+    .flag.low-flag { background: var(--vscode-editorWarning-foreground); color: var(--vscode-editor-background); }
+    .empty { opacity: 0.7; padding: 16px 0; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <input id="filter" type="text" placeholder="Filter by name or value">
+    <label><input id="differences" type="checkbox"> Show only differences</label>
+    <label>Contrast against <select id="background"></select></label>
+    <span class="legend"><span class="flag missing-flag">missing</span><span class="flag identical-flag">identical</span><span class="flag low-flag">low contrast</span></span>
+    <span id="count" class="count"></span>
+</div>
+<div id="grid"></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const state = vscode.getState() || { filter: '', differences: false };
+    const filterInput = document.getElementById('filter');
+    const differencesInput = document.getElementById('differences');
+    const backgroundSelect = document.getElementById('background');
+    let palette = { contexts: [], rows: [], backgrounds: [] };
+
+    filterInput.value = state.filter;
+    differencesInput.checked = state.differences;
+
+    function escapeHtml(text) {
+        return String(text).replace(/[&<>"']/g, (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]));
+    }
+
+    function contextLabel(context) {
+        return context === 'global' ? 'global' : '.' + context;
+    }
+
+    function renderBackgrounds() {
+        const options = ['<option value="">(none)</option>'].concat(palette.backgrounds.map((varName) =>
+            '<option value="' + escapeHtml(varName) + '"' + (varName === palette.background ? ' selected' : '') + '>' + escapeHtml(varName) + '</option>'));
+        backgroundSelect.innerHTML = options.join('');
+    }
+
+    function renderGrid() {
+        const filter = filterInput.value.trim().toLowerCase();
+        const rows = palette.rows.filter((row) => {
+            if (differencesInput.checked && !row.differs && !row.missing) {
+                return false;
+            }
+            return !filter || row.varName.toLowerCase().includes(filter)
+                || row.cells.some((cell) => cell.text && cell.text.toLowerCase().includes(filter));
+        });
+
+        document.getElementById('count').textContent = rows.length + ' of ' + palette.rows.length + ' tokens';
+        if (rows.length === 0) {
+            document.getElementById('grid').innerHTML = '<div class="empty">' + (palette.rows.length === 0 ? 'No color tokens found in the workspace.' : 'No tokens match.') + '</div>';
+            return;
+        }
+
+        const header = '<tr><th>Token</th>' + palette.contexts.map((context) => '<th>' + escapeHtml(contextLabel(context)) + '</th>').join('') + '</tr>';
+        const body = rows.map((row) => {
+            const flags = (row.missing ? '<span class="flag missing-flag">missing</span>' : '')
+                + (row.identical ? '<span class="flag identical-flag">identical</span>' : '')
+                + (row.cells.some((cell) => cell.lowContrast) ? '<span class="flag low-flag">low contrast</span>' : '');
+            const cells = row.cells.map((cell) => {
+                const classes = ['cell', cell.inherited ? 'inherited' : '', !cell.rgba && cell.context !== 'global' ? 'missing' : '', cell.lowContrast ? 'low' : ''].join(' ');
+                const title = !cell.rgba
+                    ? 'Not defined in ' + contextLabel(cell.context)
+                    : (cell.inherited ? 'Inherited from global' : 'Defined in ' + contextLabel(cell.context))
+                        + (cell.contrast !== undefined ? ' · ' + cell.contrast + ':1 on ' + palette.background : '');
+                const content = cell.rgba
+                    ? '<span class="swatch"><i style="background:' + escapeHtml(cell.rgba) + '"></i></span><span class="value">' + escapeHtml(cell.text) + '</span>'
+                    : '<span class="value">—</span>';
+                return '<td class="' + classes + '" title="' + escapeHtml(title) + '" data-var="' + escapeHtml(row.varName) + '" data-context="' + escapeHtml(cell.context) + '">' + content + '</td>';
+            }).join('');
+            return '<tr><td class="name">' + escapeHtml(row.varName) + flags + '</td>' + cells + '</tr>';
+        }).join('');
+        document.getElementById('grid').innerHTML = '<table><thead>' + header + '</thead><tbody>' + body + '</tbody></table>';
+    }
+
+    function saveState() {
+        vscode.setState({ filter: filterInput.value, differences: differencesInput.checked });
+    }
+
+    filterInput.addEventListener('input', () => { saveState(); renderGrid(); });
+    differencesInput.addEventListener('change', () => { saveState(); renderGrid(); });
+    backgroundSelect.addEventListener('change', () => vscode.postMessage({ type: 'background', varName: backgroundSelect.value }));
+    document.getElementById('grid').addEventListener('click', (event) => {
+        const cell = event.target.closest('td.cell');
+        if (cell) {
+            vscode.postMessage({ type: 'reveal', varName: cell.dataset.var, context: cell.dataset.context });
+        }
+    });
+
+    window.addEventListener('message', (event) => {
+        if (event.data.type === 'update') {
+            palette = event.data;
+            renderBackgrounds();
+            renderGrid();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,165 @@
+export interface PreprocessorReference {
+    name: string; // '$brand', '@primary' or '$colors.primary' for a map entry
+    start: number; // offset of the reference in the text
+    end: number; // offset just past the reference
+}
+
+/**
+ * Matches, in order: Sass `map.get($map, key…)` / `map-get($map, key…)`, Sass
+ * variables with an optional `@use` namespace (`tokens.$brand`), Less `@{name}`
+ * interpolation and Less `@name` variables. Declarations (`$x:`) are excluded.
+ */
+const referencePattern = /map[.-]get\(\s*(?:[\w-]+\.)?(\$[\w-]+)\s*,\s*([^()]+?)\s*\)|(?<![\w$@-])(?:[\w-]+\.)?(\$[\w-]+)(?![\w-]|\s*:)|@\{([\w-]+)\}|(?<![\w@-])(@[\w-]+)(?![\w-]|\s*:|\s*\()/g;
+
+// At-rules of CSS, Tailwind, Sass and Less, which read like Less `@name` variables
+const atRuleKeywords = new Set([
+    'import', 'media', 'supports', 'layer', 'container', 'font-face', 'keyframes', 'page', 'charset',
+    'namespace', 'property', 'scope', 'starting-style', 'counter-style', 'font-feature-values', 'document',
+    'apply', 'tailwind', 'theme', 'config', 'plugin', 'source', 'utility', 'variant', 'custom-variant',
+    'reference', 'screen', 'use', 'forward', 'mixin', 'include', 'function', 'return', 'extend', 'if',
+    'else', 'each', 'for', 'while', 'debug', 'warn', 'error', 'content', 'at-root',
+]);
+
+const flagPattern = /\s*!(?:default|global)\b/g;
+
+/**
+ * Finds references to SCSS, Sass and Less variables in a value or line, including
+ * `#{$x}` interpolation (the `$x` inside is matched) and map lookups. At-rules such
+ * as `@import`, `@apply` or `@media` are not references.
+ */
+export function findPreprocessorReferences(text: string): PreprocessorReference[] {
+    const references: PreprocessorReference[] = [];
+    referencePattern.lastIndex = 0;
+    let match;
+
+    while ((match = referencePattern.exec(text)) !== null) {
+        let name: string;
+        if (match[1]) {
+            const keys = match[2].split(',').map((key) => key.trim().replace(/^["']|["']$/g, ''));
+            name = [match[1], ...keys].join('.');
+        } else if (match[3]) {
+            name = match[3];
+        } else if (match[4]) {
+            name = `@${match[4]}`;
+        } else if (!atRuleKeywords.has(match[5].substring(1).toLowerCase())) {
+            name = match[5];
+        } else {
+            continue; // @import, @apply, @media, …
+        }
+        references.push({ name, start: match.index, end: match.index + match[0].length });
+    }
+
+    return references;
+}
+
+/**
+ * Rewrites preprocessor references as var() so the alias resolver can follow them:
+ * `--primary: #{$brand}` → `var($brand)`, `$accent: map.get($colors, primary)` →
+ * `var($colors.primary)`. `!default` and `!global` flags are dropped.
+ */
+export function toVarReferences(value: string): string {
+    const withoutFlags = value.replace(flagPattern, '');
+    let result = '';
+    let cursor = 0;
+
+    for (const reference of findPreprocessorReferences(withoutFlags)) {
+        let start = reference.start;
+        let end = reference.end;
+        // #{$x} interpolation is replaced as a whole
+        if (withoutFlags.substring(start - 2, start) === '#{') {
+            const close = withoutFlags.indexOf('}', end);
+            if (close !== -1 && withoutFlags.substring(end, close).trim() === '') {
+                start -= 2;
+                end = close + 1;
+            }
+        }
+        result += `${withoutFlags.substring(cursor, start)}var(${reference.name})`;
+        cursor = end;
+    }
+
+    return result + withoutFlags.substring(cursor);
+}
+
+export interface SassMapEntry {
+    name: string; // '$colors.brand.500'
+    value: string;
+    offset: number; // offset of the entry's key in the content
+}
+
+/**
+ * Flattens Sass maps, `$colors: (primary: #4f46e5, brand: (500: #6366f1))`, into
+ * entries named like `map.get` lookups: `$colors.primary`, `$colors.brand.500`.
+ */
+export function findSassMapEntries(content: string): SassMapEntry[] {
+    const entries: SassMapEntry[] = [];
+    const mapStartPattern = /(?:^|[{;\s])(\$[\w-]+)\s*:\s*\(/g;
+    let match;
+
+    while ((match = mapStartPattern.exec(content)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosingParen(content, open);
+        if (close === -1) {
+            continue;
+        }
+        collectMapEntries(content.substring(open + 1, close), match[1], open + 1, entries);
+        mapStartPattern.lastIndex = close;
+    }
+
+    return entries;
+}
+
+function collectMapEntries(body: string, prefix: string, offset: number, entries: SassMapEntry[]): void {
+    let itemStart = offset;
+    for (const item of splitTopLevel(body, ',')) {
+        const colon = item.indexOf(':');
+        const key = item.substring(0, colon).trim().replace(/^["']|["']$/g, '');
+        if (colon !== -1 && key) {
+            const name = `${prefix}.${key}`;
+            const rawValue = item.substring(colon + 1);
+            const value = rawValue.trim();
+            if (value.startsWith('(') && findClosingParen(value, 0) === value.length - 1) {
+                const valueStart = itemStart + colon + 1 + rawValue.indexOf('(');
+                collectMapEntries(value.substring(1, value.length - 1), name, valueStart + 1, entries);
+            } else {
+                entries.push({ name, value, offset: itemStart + item.search(/\S/) });
+            }
+        }
+        itemStart += item.length + 1;
+    }
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+        } else if (ch === separator && depth === 0) {
+            parts.push(text.substring(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start));
+
+    return parts;
+}
+
+function findClosingParen(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '(') {
+            depth++;
+        } else if (text[i] === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
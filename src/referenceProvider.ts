@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { parseTailwindClass, findClassVariable, classColorsForVariable } from './tailwindParser';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { findVariableAtPosition, findClassAtPosition } from './symbolAtPosition';
+import { TokenIndex } from './tokenIndex';
+
+const validNamePattern = /^(--|\$|@)[\w-]+$/;
+
+/**
+ * Find All References and Rename for variables, across every file in the workspace.
+ * A token is found from `var(--x)`, `$x`, `@x`, its declarations, or a Tailwind class
+ * backed by it. Renaming also renames the classes that read the variable by name
+ * (`--color-brand-500` → `bg-brand-500` in v4); those edits are shown for confirmation.
+ */
+export class TokenReferenceProvider implements vscode.ReferenceProvider, vscode.RenameProvider {
+    constructor(
+        private readonly decorationProvider: ColorDecorationProvider,
+        private readonly index: TokenIndex
+    ) {}
+
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+        const target = this.findToken(document, position);
+        if (!target) {
+            return undefined;
+        }
+
+        const occurrences = await this.index.findOccurrences(target.varName, token);
+        return occurrences
+            .filter((occurrence) => context.includeDeclaration || occurrence.kind !== 'definition')
+            .map((occurrence) => new vscode.Location(occurrence.uri, occurrence.range));
+    }
+
+    public prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { range: vscode.Range; placeholder: string } {
+        const target = this.findToken(document, position);
+        if (!target) {
+            throw new Error('Only color tokens (CSS, SCSS and Less variables) can be renamed here.');
+        }
+        if (target.varName.includes('.')) {
+            throw new Error(`Sass map entries such as '${target.varName}' cannot be renamed.`);
+        }
+        return { range: target.range, placeholder: target.varName };
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        const target = this.findToken(document, position);
+        if (!target) {
+            return undefined;
+        }
+
+        const oldName = target.varName;
+        const sigil = oldName.match(validNamePattern)?.[1];
+        if (!validNamePattern.test(newName) || !newName.startsWith(sigil ?? '--')) {
+            throw new Error(`'${newName}' is not a valid name for '${oldName}'; it must start with '${sigil}'.`);
+        }
+
+        const oldClassColors = classColorsForVariable(oldName);
+        const newClassColors = classColorsForVariable(newName);
+        const occurrences = await this.index.findOccurrences(oldName, token);
+        const edit = new vscode.WorkspaceEdit();
+        const stranded = new Set<string>();
+
+        for (const occurrence of occurrences) {
+            if (occurrence.kind !== 'class') {
+                // @{primary} is written without its @
+                const replacement = occurrence.text === oldName ? newName : newName.substring(1);
+                edit.replace(occurrence.uri, occurrence.range, replacement);
+                continue;
+            }
+
+            // The new name has no class form (e.g. v4 without the --color- prefix): leave the class
+            const newClassColor = newClassColors[oldClassColors.indexOf(occurrence.text)];
+            if (!newClassColor) {
+                stranded.add(occurrence.text);
+                continue;
+            }
+            edit.replace(occurrence.uri, occurrence.range, newClassColor, {
+                needsConfirmation: true,
+                label: 'Rename Tailwind classes',
+                description: `${occurrence.text} → ${newClassColor}`,
+            });
+        }
+
+        if (stranded.size > 0) {
+            const classes = Array.from(stranded).slice(0, 3).join("', '");
+            vscode.window.showWarningMessage(
+                `True Colors: Classes such as '${classes}' read '${oldName}' by name and cannot follow '${newName}'; they were left unchanged.`
+            );
+        }
+        return edit;
+    }
+
+    private findToken(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { varName: string; range: vscode.Range } | undefined {
+        const definitions = this.decorationProvider.getDefinitionLocations();
+        const line = document.lineAt(position.line).text;
+        const variable = findVariableAtPosition(line, position.character, (name) => definitions.has(name));
+        if (variable) {
+            // tokens.$brand: only the variable name is renamed
+            const start = line.lastIndexOf(variable.varName, variable.end);
+            const nameStart = start >= variable.start ? start : variable.start;
+            return {
+                varName: variable.varName,
+                range: new vscode.Range(position.line, nameStart, position.line, nameStart + variable.varName.length),
+            };
+        }
+
+        const occurrence = findClassAtPosition(document, position);
+        const classInfo = occurrence ? parseTailwindClass(occurrence.name) : null;
+        const varName = classInfo ? findClassVariable(classInfo.colorName, definitions) : undefined;
+        if (!occurrence || !varName) {
+            return undefined;
+        }
+        return {
+            varName,
+            range: new vscode.Range(document.positionAt(occurrence.start), document.positionAt(occurrence.end)),
+        };
+    }
+}
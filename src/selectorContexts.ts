@@ -0,0 +1,255 @@
+/**
+ * Maps the blocks of a stylesheet to named contexts (themes) from their selectors and
+ * at-rules: `.dark`, `:root.dark`, `html.dark, .dark`, `[data-theme="dark"]`, `:is(.dark)`,
+ * `.dark .card`, `@media (prefers-color-scheme: dark)`. A selector list can name several
+ * (`.light, .dark`), and its declarations then belong to each. Blocks whose prelude names
+ * no context (`:root`, `.card`, `@layer base`) inherit the contexts of the enclosing block.
+ */
+
+import { CssRule } from './cssParser';
+
+export interface RuleContext {
+    contexts: string[]; // ['global'] outside any context, ['light', 'dark'] for `.light, .dark`
+    source?: string; // the selector or at-rule that set the context, e.g. '@media (prefers-color-scheme: dark)'
+}
+
+// Theme attributes: data-theme, data-mode, data-bs-theme, data-color-scheme, theme, class
+const themeAttributePattern = /^(?:data-)?(?:[\w-]*-)?(?:theme|mode|scheme|appearance)$|^class$/i;
+// Class names that are themes even when a rule goes on to select descendants (.dark .card)
+const themeClassPattern = /^(?:light|dark)$|^(?:theme|mode)-|-(?:theme|mode)$/i;
+// Selectors for the document or component root, which apply in every context
+const rootCompoundPattern = /^(?:html|body|:root|:host|\*)$/i;
+// Pseudo-classes whose argument is itself a selector naming the context
+const contextPseudoPattern = /^:(?:is|where|matches|host|host-context)$/i;
+
+let contextSelectors = new Map<string, string>();
+
+/**
+ * Orders contexts for display: global first, then light and dark, then the rest
+ * alphabetically.
+ */
+export function compareContexts(a: string, b: string): number {
+    const order = (context: string) => {
+        const index = ['global', 'light', 'dark'].indexOf(context);
+        return index === -1 ? 3 : index;
+    };
+    return order(a) - order(b) || a.localeCompare(b);
+}
+
+/**
+ * Set the user's selector → context mapping (`trueColors.contextSelectors`), e.g.
+ * `{ "[data-theme=midnight]": "midnight", ".card": "global" }`. Keys are selectors,
+ * single compounds or at-rule preludes; `global` means the block names no context.
+ */
+export function setContextSelectors(mapping: Record<string, string>): void {
+    contextSelectors = new Map(
+        Object.entries(mapping).map(([selector, context]) => [normalizeSelector(selector), context.replace(/^\./, '')])
+    );
+}
+
+/**
+ * The contexts of a rule's declarations: the ones its prelude names, or else the
+ * contexts of the enclosing rule.
+ */
+export function resolveRuleContext(rule: CssRule, parent: RuleContext): RuleContext {
+    const contexts = contextsForPrelude(rule.prelude);
+    return contexts.length > 0 ? { contexts, source: normalizeSelector(rule.prelude) } : parent;
+}
+
+/**
+ * The contexts a block prelude names, or none when the block inherits its parent's.
+ * Any root selector in a list (`:root, .light`) makes the block apply everywhere;
+ * otherwise every selector naming a context counts (`.light, .dark` → light and dark,
+ * `html.dark, .dark` → dark).
+ */
+export function contextsForPrelude(prelude: string): string[] {
+    const normalized = normalizeSelector(prelude);
+    if (!normalized) {
+        return [];
+    }
+    const mapped = contextSelectors.get(normalized);
+    if (mapped !== undefined) {
+        return mapped === 'global' ? [] : [mapped];
+    }
+    if (normalized.startsWith('@')) {
+        const context = /^@media\b/i.test(normalized) ? contextForMediaQuery(normalized) : undefined;
+        return context ? [context] : [];
+    }
+
+    const contexts: string[] = [];
+    for (const selector of splitTopLevel(normalized, ',')) {
+        const mappedSelector = contextSelectors.get(selector);
+        if (mappedSelector !== undefined) {
+            if (mappedSelector !== 'global') {
+                contexts.push(mappedSelector);
+            }
+            continue;
+        }
+        const compounds = splitCompounds(selector);
+        if (compounds.length === 1 && rootCompoundPattern.test(compounds[0])) {
+            return [];
+        }
+        contexts.push(...contextsForComplexSelector(compounds));
+    }
+    return Array.from(new Set(contexts));
+}
+
+// The context is named by the leftmost compound: themes are set on an ancestor
+function contextsForComplexSelector(compounds: string[]): string[] {
+    const [leftmost] = compounds;
+    const mapped = contextSelectors.get(leftmost);
+    if (mapped !== undefined) {
+        return mapped === 'global' ? [] : [mapped];
+    }
+
+    const { strong, classes, qualified } = analyzeCompound(leftmost);
+    if (strong.length > 0) {
+        return strong;
+    }
+    // .dark { … } is a context on its own; .sidebar .button is not, but .dark .card is
+    if (classes.length === 1 && !qualified && (compounds.length === 1 || isThemeClass(classes[0]))) {
+        return [classes[0]];
+    }
+    return [];
+}
+
+/**
+ * Reads one compound selector. `strong` are the contexts named unambiguously: a theme
+ * attribute value, a class on the root element (`:root.dark`, `html.dark`) or the
+ * classes inside `:is()` / `:where()` / `:host()` / `:host-context()`.
+ */
+function analyzeCompound(compound: string): { strong: string[]; classes: string[]; qualified: boolean } {
+    const classes: string[] = [];
+    let strong: string[] = [];
+    let rooted = false;
+    let qualified = false; // anything besides classes, e.g. `.btn:hover` or `div.card`
+
+    const partPattern = /(\.[\w-]+)|(\[[^\]]*\])|(::?[\w-]+)(\((?:[^()]|\([^()]*\))*\))?|([\w-]+|\*|&)|(#[\w-]+)/g;
+    let match;
+    while ((match = partPattern.exec(compound)) !== null) {
+        const [, className, attribute, pseudo, pseudoArgs, type, id] = match;
+        if (className) {
+            classes.push(className.substring(1));
+        } else if (attribute) {
+            const context = contextForAttribute(attribute);
+            if (strong.length === 0 && context) {
+                strong = [context];
+            }
+            qualified = true;
+        } else if (pseudo) {
+            if (/^:(?:root|host)$/i.test(pseudo)) {
+                rooted = true;
+            }
+            if (pseudoArgs && contextPseudoPattern.test(pseudo)) {
+                strong = strong.length > 0 ? strong : contextsForPrelude(pseudoArgs.slice(1, -1));
+            } else if (!/^:(?:root|host)$/i.test(pseudo)) {
+                qualified = true;
+            }
+        } else if (type) {
+            if (/^(?:html|body)$/i.test(type)) {
+                rooted = true;
+            } else if (type !== '&') {
+                qualified = true;
+            }
+        } else if (id) {
+            qualified = true;
+        }
+    }
+
+    if (strong.length === 0 && rooted && classes.length > 0) {
+        strong = [classes[0]];
+    }
+    return { strong, classes, qualified: qualified || rooted || classes.length !== 1 };
+}
+
+// [data-theme="dark"] → dark, [class~=dark] → dark; other attributes name no context
+function contextForAttribute(attribute: string): string | undefined {
+    const match = attribute.match(/^\[\s*([\w-]+)\s*([~|]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*(?:[is]\s*)?\]$/);
+    if (!match || !themeAttributePattern.test(match[1])) {
+        return undefined;
+    }
+    const value = (match[3] ?? match[4] ?? match[5] ?? '').trim();
+    return /^[\w-]+$/.test(value) ? value : undefined;
+}
+
+/**
+ * User preferences become contexts: `prefers-color-scheme: dark` → `dark`,
+ * `prefers-contrast: more` → `contrast-more`, `forced-colors: active` → `forced-colors`.
+ * Other queries (widths, print) do not change colors' context.
+ */
+function contextForMediaQuery(query: string): string | undefined {
+    if (/\bnot\b/i.test(query)) {
+        return undefined;
+    }
+    const scheme = query.match(/prefers-color-scheme\s*:\s*([\w-]+)/i);
+    if (scheme) {
+        return scheme[1].toLowerCase();
+    }
+    const contrast = query.match(/prefers-contrast\s*:\s*(more|less|custom)/i);
+    if (contrast) {
+        return `contrast-${contrast[1].toLowerCase()}`;
+    }
+    if (/forced-colors\s*:\s*active/i.test(query)) {
+        return 'forced-colors';
+    }
+    return undefined;
+}
+
+function isThemeClass(className: string): boolean {
+    return themeClassPattern.test(className) || Array.from(contextSelectors.values()).includes(className);
+}
+
+/**
+ * Canonical form for comparing selectors: single spaces, none around `>`, `+`, `~`
+ * and `,`, unquoted attribute values, and `: ` in at-rule features such as
+ * `(prefers-color-scheme:dark)`.
+ */
+function normalizeSelector(selector: string): string {
+    const trimmed = selector.trim();
+    return (trimmed.startsWith('@') ? trimmed.replace(/\s*:\s*/g, ': ') : trimmed)
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([>+~,])\s*(?![^[]*\])/g, '$1')
+        .replace(/\[\s*([\w-]+)\s*([~|^$*]?=)\s*(["'])([^"']*)\3\s*\]/g, '[$1$2$4]')
+        .replace(/\(\s+/g, '(')
+        .replace(/\s+\)/g, ')');
+}
+
+// Descendant and child combinators separate compounds; `>`, `+`, `~` are dropped
+function splitCompounds(selector: string): string[] {
+    return splitTopLevel(selector.replace(/([>+~])(?![^[(]*[\])])/g, ' '), ' ').filter(Boolean);
+}
+
+// Split on a separator outside brackets, parentheses and quotes
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'") {
+            i = skipString(text, i);
+        } else if (ch === '(' || ch === '[') {
+            depth++;
+        } else if (ch === ')' || ch === ']') {
+            depth = Math.max(0, depth - 1);
+        } else if (ch === separator && depth === 0) {
+            parts.push(text.substring(start, i).trim());
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start).trim());
+    return parts.filter(Boolean);
+}
+
+// Index of the closing quote of the string starting at `start`
+function skipString(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote || text[i] === '\n') {
+            return i;
+        }
+    }
+    return text.length;
+}
@@ -0,0 +1,35 @@
+/**
+ * Stylesheet languages whose files are indexed as color sources.
+ */
+export const STYLESHEET_LANGUAGES = new Set(['css', 'scss', 'sass', 'less', 'postcss']);
+
+/**
+ * Languages whose files can carry stylesheets in `<style>` blocks.
+ */
+export const STYLE_BLOCK_LANGUAGES = new Set(['vue', 'svelte', 'astro', 'html']);
+
+const styleBlockPattern = /(<style\b[^>]*>)([\s\S]*?)<\/style\s*>/gi;
+
+/**
+ * Returns the `<style>` block contents of a Vue, Svelte, Astro or HTML file with
+ * everything else blanked out. Newlines are kept so line numbers and offsets match
+ * the original document.
+ */
+export function extractStyleBlocks(text: string): string {
+    let result = '';
+    let cursor = 0;
+    styleBlockPattern.lastIndex = 0;
+    let match;
+
+    while ((match = styleBlockPattern.exec(text)) !== null) {
+        const contentStart = match.index + match[1].length;
+        result += blankOut(text.substring(cursor, contentStart)) + match[2];
+        cursor = contentStart + match[2].length;
+    }
+
+    return result + blankOut(text.substring(cursor));
+}
+
+function blankOut(text: string): string {
+    return text.replace(/[^\n]/g, ' ');
+}
@@ -0,0 +1,20 @@
+// Shared SVG fragments for color swatches (decorations, gutter icons and hovers)
+
+/**
+ * A checkerboard pattern that translucent colors are composited against, so a
+ * `bg-red-500/50` swatch reads as half-transparent instead of a lighter red.
+ * Reference it with `fill="url(#tc-checker)"`.
+ */
+export const checkerboardDefs = '<defs><pattern id="tc-checker" width="6" height="6" patternUnits="userSpaceOnUse"><rect width="6" height="6" fill="#ffffff"/><rect width="3" height="3" fill="#cccccc"/><rect x="3" y="3" width="3" height="3" fill="#cccccc"/></pattern></defs>';
+
+/**
+ * A square swatch split into one vertical stripe per color, e.g. a variable's
+ * `.light` and `.dark` values side by side in a tree view icon.
+ */
+export function stripedSwatchSvg(colorStrings: string[], size = 16): string {
+    const width = size / Math.max(1, colorStrings.length);
+    const stripes = colorStrings
+        .map((color, i) => `<rect x="${i * width}" y="0" width="${width}" height="${size}" fill="${color}"/>`)
+        .join('');
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${checkerboardDefs}<clipPath id="tc-clip"><rect width="${size}" height="${size}" rx="3"/></clipPath><g clip-path="url(#tc-clip)"><rect width="${size}" height="${size}" fill="url(#tc-checker)"/>${stripes}</g><rect x="0.5" y="0.5" width="${size - 1}" height="${size - 1}" rx="3" fill="none" stroke="rgba(128,128,128,0.5)"/></svg>`;
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { ChannelSpace, toChannelSpace } from './colorParser';
+import { parseTailwindClass } from './tailwindParser';
+import { findClassOccurrences, ClassOccurrence } from './classDetector';
+import { findPreprocessorReferences } from './preprocessor';
+
+export interface VariableAtPosition {
+    varName: string;
+    channelSpace?: ChannelSpace; // from the wrapping function, e.g. hsl(var(--x))
+    start: number; // character range of the name on the line
+    end: number;
+    isDefinition: boolean; // the cursor is on a declaration (`--x: …`) rather than a usage
+}
+
+/**
+ * The variable under the cursor: a `var(--x)` usage, a SCSS/Sass/Less usage
+ * (`$brand`, `tokens.$brand`, `map.get($colors, primary)`, `@primary`) that `isKnown`
+ * accepts, or a declaration when the cursor is on its name or value.
+ */
+export function findVariableAtPosition(
+    line: string,
+    character: number,
+    isKnown: (varName: string) => boolean
+): VariableAtPosition | null {
+    // Match patterns: var(--name), rgba(var(--name)), hsl(var(--name)), etc.
+    const usagePattern = /(?:(rgba?|hsla?|hwb|lab|lch|oklab|oklch)\s*\(\s*)?var\s*\(\s*(--[\w-]+)/g;
+    let usage;
+    while ((usage = usagePattern.exec(line)) !== null) {
+        const varName = usage[2];
+        const start = usage.index + usage[0].indexOf(varName);
+        const end = start + varName.length;
+
+        if (character >= start && character <= end) {
+            const channelSpace = usage[1] ? toChannelSpace(usage[1]) : undefined;
+            return { varName, channelSpace, start, end, isDefinition: false };
+        }
+    }
+
+    for (const reference of findPreprocessorReferences(line)) {
+        if (character >= reference.start && character <= reference.end && isKnown(reference.name)) {
+            return { varName: reference.name, start: reference.start, end: reference.end, isDefinition: false };
+        }
+    }
+
+    // Match variable definitions: --varname: value; $brand: value; @primary: value;
+    // Covers both hovering on the name and on the value.
+    const defPattern = /((?:--|\$|@)[\w-]+)\s*:\s*([^;{}]+);?/g;
+    let match;
+    while ((match = defPattern.exec(line)) !== null) {
+        const varName = match[1];
+        const nameStart = match.index;
+        const nameEnd = nameStart + varName.length;
+        const valueStart = nameStart + match[0].indexOf(match[2]);
+        const valueEnd = valueStart + match[2].trimEnd().length;
+        // Cursor is on the variable name or on the value portion
+        if ((character >= nameStart && character <= nameEnd) || (character >= valueStart && character <= valueEnd)) {
+            return { varName, start: nameStart, end: nameEnd, isDefinition: true };
+        }
+    }
+
+    return null;
+}
+
+// Class occurrences of the last document asked about, reused while it is unchanged
+let classCache: { uri: string; version: number; occurrences: ClassOccurrence[] } | undefined;
+
+/**
+ * The Tailwind color class under the cursor. Only classes in class attributes, class
+ * functions and @apply are considered.
+ */
+export function findClassAtPosition(document: vscode.TextDocument, position: vscode.Position): ClassOccurrence | null {
+    const uri = document.uri.toString();
+    if (!classCache || classCache.uri !== uri || classCache.version !== document.version) {
+        classCache = { uri, version: document.version, occurrences: findClassOccurrences(document.getText()) };
+    }
+
+    const offset = document.offsetAt(position);
+    const occurrence = classCache.occurrences.find((o) => o.start <= offset && offset < o.end);
+    return occurrence && parseTailwindClass(occurrence.name) ? occurrence : null;
+}
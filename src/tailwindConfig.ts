@@ -0,0 +1,425 @@
+import { tailwindColors } from './tailwindColors';
+
+export interface TailwindConfig {
+    colors: Map<string, string>; // flattened color name ('brand-dark') → value as written
+    replacesDefaultPalette: boolean; // true when theme.colors (not only theme.extend.colors) is set as an object literal
+    variants: string[]; // custom variant names: theme.screens keys and plugin addVariant/matchVariant names
+}
+
+/**
+ * A statically evaluated JS value. Anything that is not an object literal or a
+ * string is kept as its source text so identifiers like `colors.slate` can still be
+ * recognised.
+ */
+type ConfigValue =
+    | { kind: 'object'; entries: Map<string, ConfigValue> }
+    | { kind: 'string'; value: string }
+    | { kind: 'expr'; text: string };
+
+interface Token {
+    type: 'string' | 'template' | 'ident' | 'number' | 'punct';
+    value: string;
+}
+
+const identStartPattern = /[A-Za-z_$]/;
+const identPattern = /[\w$]/;
+const numberStartPattern = /[0-9]/;
+
+// Members of tailwindcss/colors that are a single color rather than a shade object
+const paletteKeywords: Record<string, string> = {
+    white: '#fff',
+    black: '#000',
+    transparent: 'transparent',
+    current: 'currentColor',
+    inherit: 'inherit',
+};
+
+const pluginVariantPattern = /\b(?:addVariant|matchVariant)\s*\(\s*['"`]([^'"`]+)['"`]/g;
+
+/**
+ * Reads `theme.colors` and `theme.extend.colors` from a tailwind.config.{js,ts} source
+ * without executing it, along with custom variant names (screens and plugin variants).
+ * Supports nested shade objects, `DEFAULT` keys, objects declared in a top-level
+ * `const` and referenced by name, arrow functions returning an object and palette
+ * references such as `colors.slate` from `tailwindcss/colors`.
+ */
+export function parseTailwindConfig(source: string): TailwindConfig | null {
+    const parser = new ConfigParser(tokenize(source));
+    const { objects, declarations } = parser.parseProgram();
+
+    let theme: ConfigValue | undefined;
+    for (const object of objects) {
+        theme = findKey(object, 'theme', declarations);
+        if (theme) {
+            break;
+        }
+    }
+    const variants: string[] = [];
+    pluginVariantPattern.lastIndex = 0;
+    let pluginVariant;
+    while ((pluginVariant = pluginVariantPattern.exec(source)) !== null) {
+        variants.push(pluginVariant[1]);
+    }
+
+    if (!theme || theme.kind !== 'object') {
+        return variants.length > 0 ? { colors: new Map(), replacesDefaultPalette: false, variants } : null;
+    }
+
+    const colors = new Map<string, string>();
+    const baseColors = resolveReference(theme.entries.get('colors'), declarations);
+    const extend = resolveReference(theme.entries.get('extend'), declarations);
+    const extendColors = extend?.kind === 'object'
+        ? resolveReference(extend.entries.get('colors'), declarations)
+        : undefined;
+
+    if (baseColors) {
+        flattenColors(baseColors, [], colors, declarations);
+    }
+    if (extendColors) {
+        flattenColors(extendColors, [], colors, declarations);
+    }
+
+    // Custom screens become responsive variants (md:, tablet:, …)
+    for (const screens of [theme.entries.get('screens'), extend?.kind === 'object' ? extend.entries.get('screens') : undefined]) {
+        const resolved = resolveReference(screens, declarations);
+        if (resolved?.kind === 'object') {
+            variants.push(...resolved.entries.keys());
+        }
+    }
+
+    // colors: require('./colors') can't be read statically, so the defaults stay in play
+    return { colors, replacesDefaultPalette: baseColors?.kind === 'object', variants };
+}
+
+/**
+ * Mirrors Tailwind's flattenColorPalette: nested keys are joined with '-' and
+ * `DEFAULT` keys map to their parent name.
+ */
+function flattenColors(
+    value: ConfigValue,
+    path: string[],
+    out: Map<string, string>,
+    declarations: Map<string, ConfigValue>
+): void {
+    const resolved = resolveReference(value, declarations);
+    if (!resolved) {
+        return;
+    }
+
+    if (resolved.kind === 'string') {
+        if (path.length > 0) {
+            out.set(path.join('-'), resolved.value);
+        }
+        return;
+    }
+
+    if (resolved.kind === 'expr') {
+        // colors.slate (tailwindcss/colors) → the built-in shades, colors.white → '#fff'
+        const member = resolved.text.match(/^[\w$]+\.([\w$]+)$/);
+        const palette = member ? tailwindColors[member[1]] : undefined;
+        if (palette) {
+            for (const [shade, rgb] of Object.entries(palette)) {
+                out.set([...path, shade].join('-'), `rgb(${rgb.r} ${rgb.g} ${rgb.b})`);
+            }
+        } else if (member && path.length > 0 && Object.prototype.hasOwnProperty.call(paletteKeywords, member[1])) {
+            out.set(path.join('-'), paletteKeywords[member[1]]);
+        }
+        return;
+    }
+
+    for (const [key, child] of resolved.entries) {
+        flattenColors(child, key === 'DEFAULT' ? path : [...path, key], out, declarations);
+    }
+}
+
+function resolveReference(
+    value: ConfigValue | undefined,
+    declarations: Map<string, ConfigValue>
+): ConfigValue | undefined {
+    if (value?.kind === 'expr' && declarations.has(value.text)) {
+        return declarations.get(value.text);
+    }
+    return value;
+}
+
+function findKey(
+    value: ConfigValue,
+    key: string,
+    declarations: Map<string, ConfigValue>
+): ConfigValue | undefined {
+    if (value.kind !== 'object') {
+        return undefined;
+    }
+    const direct = value.entries.get(key);
+    if (direct) {
+        return resolveReference(direct, declarations);
+    }
+    for (const child of value.entries.values()) {
+        const found = findKey(child, key, declarations);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (source.startsWith('//', i)) {
+            const end = source.indexOf('\n', i);
+            i = end === -1 ? source.length : end + 1;
+        } else if (source.startsWith('/*', i)) {
+            const end = source.indexOf('*/', i + 2);
+            i = end === -1 ? source.length : end + 2;
+        } else if (ch === '"' || ch === "'" || ch === '`') {
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    j++;
+                }
+                value += source[j];
+                j++;
+            }
+            // Template literals with substitutions cannot be evaluated statically
+            const type = ch === '`' && value.includes('${') ? 'template' : 'string';
+            tokens.push({ type, value });
+            i = j + 1;
+        } else if (identStartPattern.test(ch)) {
+            let j = i + 1;
+            while (j < source.length && identPattern.test(source[j])) {
+                j++;
+            }
+            tokens.push({ type: 'ident', value: source.substring(i, j) });
+            i = j;
+        } else if (numberStartPattern.test(ch)) {
+            let j = i + 1;
+            while (j < source.length && /[\w.]/.test(source[j])) {
+                j++;
+            }
+            tokens.push({ type: 'number', value: source.substring(i, j) });
+            i = j;
+        } else if (source.startsWith('...', i) || source.startsWith('=>', i)) {
+            tokens.push({ type: 'punct', value: source.substring(i, i + (source[i] === '.' ? 3 : 2)) });
+            i += source[i] === '.' ? 3 : 2;
+        } else {
+            tokens.push({ type: 'punct', value: ch });
+            i++;
+        }
+    }
+
+    return tokens;
+}
+
+class ConfigParser {
+    private pos = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    /**
+     * Collects every top-level object literal plus `const name = { … }` declarations
+     * so shorthand references like `theme: { colors }` can be followed.
+     */
+    public parseProgram(): { objects: ConfigValue[]; declarations: Map<string, ConfigValue> } {
+        const objects: ConfigValue[] = [];
+        const declarations = new Map<string, ConfigValue>();
+
+        while (this.pos < this.tokens.length) {
+            const token = this.tokens[this.pos];
+
+            if (token.type === 'ident' && ['const', 'let', 'var'].includes(token.value)
+                && this.peek(1)?.type === 'ident') {
+                const name = (this.peek(1) as Token).value;
+                this.pos += 2;
+                // Skip an optional type annotation up to '='
+                while (this.pos < this.tokens.length && !this.isPunct('=') && !this.isPunct(';')) {
+                    this.pos++;
+                }
+                if (this.isPunct('=')) {
+                    this.pos++;
+                    const value = this.parseValue();
+                    declarations.set(name, value);
+                    if (value.kind === 'object') {
+                        objects.push(value);
+                    }
+                }
+                continue;
+            }
+
+            if (this.isPunct('{')) {
+                objects.push(this.parseValue());
+                continue;
+            }
+
+            this.pos++;
+        }
+
+        return { objects, declarations };
+    }
+
+    private parseValue(): ConfigValue {
+        const token = this.tokens[this.pos];
+        if (!token) {
+            return { kind: 'expr', text: '' };
+        }
+
+        if (token.type === 'string') {
+            this.pos++;
+            return { kind: 'string', value: token.value };
+        }
+
+        if (this.isPunct('{')) {
+            return this.parseObject();
+        }
+
+        if (this.isPunct('(')) {
+            const open = this.pos;
+            this.skipBalanced();
+            if (this.isPunct('=>')) {
+                this.pos++;
+                return this.parseArrowBody();
+            }
+            // Parenthesised expression: parse what's inside
+            const end = this.pos;
+            this.pos = open + 1;
+            const inner = this.parseValue();
+            this.pos = end;
+            return inner;
+        }
+
+        if (token.type === 'ident') {
+            let text = token.value;
+            this.pos++;
+            if (this.isPunct('=>')) {
+                this.pos++;
+                return this.parseArrowBody();
+            }
+            while (this.isPunct('.') && this.peek(1)?.type === 'ident') {
+                text += `.${(this.peek(1) as Token).value}`;
+                this.pos += 2;
+            }
+            if (this.isPunct('(')) {
+                this.skipBalanced();
+            }
+            return { kind: 'expr', text };
+        }
+
+        const start = this.pos;
+        this.skipExpression();
+        return {
+            kind: 'expr',
+            text: this.tokens.slice(start, this.pos).map((t) => t.value).join(''),
+        };
+    }
+
+    private parseArrowBody(): ConfigValue {
+        if (this.isPunct('{')) {
+            // Block body: cannot be evaluated statically
+            this.skipBalanced();
+            return { kind: 'expr', text: '' };
+        }
+        return this.parseValue();
+    }
+
+    private parseObject(): ConfigValue {
+        const entries = new Map<string, ConfigValue>();
+        this.pos++; // {
+
+        while (this.pos < this.tokens.length && !this.isPunct('}')) {
+            if (this.isPunct(',')) {
+                this.pos++;
+                continue;
+            }
+
+            if (this.isPunct('...')) {
+                this.pos++;
+                this.skipExpression();
+                continue;
+            }
+
+            const keyToken = this.tokens[this.pos];
+            let key: string | undefined;
+            if (this.isPunct('[')) {
+                this.skipBalanced(); // computed key
+            } else {
+                key = keyToken.value;
+                this.pos++;
+            }
+
+            if (this.isPunct(':')) {
+                this.pos++;
+                const value = this.parseValue();
+                // Trailing operators such as `satisfies Config` or `as const`
+                this.skipExpression();
+                if (key !== undefined) {
+                    entries.set(key, value);
+                }
+            } else if (this.isPunct('(')) {
+                // Method shorthand: name(args) { … }
+                this.skipBalanced();
+                if (this.isPunct('{')) {
+                    this.skipBalanced();
+                }
+            } else if (key !== undefined && keyToken.type === 'ident') {
+                // Shorthand property: { colors }
+                entries.set(key, { kind: 'expr', text: key });
+            }
+        }
+
+        this.pos++; // }
+        return { kind: 'object', entries };
+    }
+
+    /**
+     * Skips a bracketed group starting at the current token.
+     */
+    private skipBalanced(): void {
+        let depth = 0;
+        do {
+            const token = this.tokens[this.pos];
+            if (token?.type === 'punct') {
+                if ('([{'.includes(token.value)) {
+                    depth++;
+                } else if (')]}'.includes(token.value)) {
+                    depth--;
+                }
+            }
+            this.pos++;
+        } while (depth > 0 && this.pos < this.tokens.length);
+    }
+
+    /**
+     * Skips to the next ',' or closing bracket at the current nesting level.
+     */
+    private skipExpression(): void {
+        while (this.pos < this.tokens.length) {
+            const token = this.tokens[this.pos];
+            if (token.type === 'punct') {
+                if (token.value === ',' || token.value === ';' || ')]}'.includes(token.value)) {
+                    return;
+                }
+                if ('([{'.includes(token.value)) {
+                    this.skipBalanced();
+                    continue;
+                }
+            }
+            this.pos++;
+        }
+    }
+
+    private isPunct(value: string): boolean {
+        const token = this.tokens[this.pos];
+        return token?.type === 'punct' && token.value === value;
+    }
+
+    private peek(offset: number): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+}
@@ -1,9 +1,17 @@
 import { tailwindColors, TailwindColor } from './tailwindColors';
-import { ParsedColor } from './colorParser';
+import { tailwindV4Colors, tailwindV4BaseColors } from './tailwindV4Colors';
+import { tailwindV4ThemeVariables } from './tailwindV4Theme';
+import { ParsedColor, parseColorValue, applyChannelSpace, toChannelSpace } from './colorParser';
+import { TailwindConfig } from './tailwindConfig';
+import { findVarReferences } from './aliasResolver';
+import { splitClassVariants, isKnownVariant } from './tailwindVariants';
 
 export interface TailwindClassInfo {
     type: string; // 'text', 'bg', 'border', etc.
-    colorName: string; // 'red-500', 'txt-primary', etc.
+    colorName: string; // 'red-500', 'txt-primary', '[#1da1f2]', '(--brand)', etc.
+    opacityModifier?: string; // '50', '[0.35]', '(--opacity)' from bg-red-500/50 etc.
+    variants?: string[]; // ['dark', 'hover'] from dark:hover:bg-red-500
+    important?: boolean; // !bg-red-500 or bg-red-500!
 }
 
 // Tailwind color utility prefixes
@@ -11,12 +19,27 @@ const colorPrefixes = [
     'text',
     'bg',
     'border',
+    'border-x',
+    'border-y',
+    'border-s',
+    'border-e',
+    'border-t',
+    'border-r',
+    'border-b',
+    'border-l',
     'from',
     'to',
     'via',
     'ring',
+    'ring-offset',
+    'inset-ring',
+    'shadow',
+    'inset-shadow',
+    'text-shadow',
+    'drop-shadow',
     'divide',
     'decoration',
+    'placeholder',
     'accent',
     'caret',
     'outline',
@@ -24,11 +47,18 @@ const colorPrefixes = [
     'stroke',
 ];
 
-// Pre-compiled per-prefix patterns (avoids RegExp construction on every parseTailwindClass call)
-const prefixPatterns: Array<{ prefix: string; pattern: RegExp }> = colorPrefixes.map((prefix) => ({
-    prefix,
-    pattern: new RegExp(`^${prefix}-(.+)$`),
-}));
+// Pre-compiled per-prefix patterns (avoids RegExp construction on every parseTailwindClass call).
+// Longest first, so border-b-gray-200 is read as border-b + gray-200 rather than border + b-gray-200
+const prefixPatterns: Array<{ prefix: string; pattern: RegExp }> = [...colorPrefixes]
+    .sort((a, b) => b.length - a.length)
+    .map((prefix) => ({
+        prefix,
+        pattern: new RegExp(`^${prefix}-(.+)$`),
+    }));
+
+// Arbitrary values: bg-[#1da1f2], text-[color:var(--fg)] and the v4 shorthand bg-(--brand)
+const arbitraryValuePattern = /^\[(.+)\]$|^\((.+)\)$/;
+const typeHintPattern = /^([a-z-]+):(.+)$/;
 
 /**
  * Parse a Tailwind class name to extract color information
@@ -36,34 +66,41 @@ const prefixPatterns: Array<{ prefix: string; pattern: RegExp }> = colorPrefixes
  * - text-red-500 → { type: 'text', colorName: 'red-500' }
  * - bg-txt-primary → { type: 'bg', colorName: 'txt-primary' }
  * - border-blue-200 → { type: 'border', colorName: 'blue-200' }
- * - hover:bg-slate-500/10 → { type: 'bg', colorName: 'slate-500' }
+ * - ring-offset-red-500 → { type: 'ring-offset', colorName: 'red-500' }
+ * - hover:bg-slate-500/10 → { type: 'bg', colorName: 'slate-500', opacityModifier: '10' }
+ * - bg-[#1da1f2] → { type: 'bg', colorName: '[#1da1f2]' }
+ * - group-hover/item:!bg-red-500 → { type: 'bg', colorName: 'red-500', variants: ['group-hover/item'], important: true }
  */
 export function parseTailwindClass(className: string): TailwindClassInfo | null {
-    let trimmed = className.trim();
-    
-    // Remove state modifiers (hover:, focus:, active:, etc.) - handle multiple modifiers
-    // hover:bg-red-500 → bg-red-500
-    // md:hover:bg-red-500 → bg-red-500
-    while (true) {
-        const modifierPattern = /^(?:hover|focus|active|disabled|visited|checked|first|last|odd|even|group-hover|dark|sm|md|lg|xl|2xl):/;
-        const match = trimmed.match(modifierPattern);
-        if (!match) break;
-        trimmed = trimmed.substring(match[0].length);
+    // Split off the variant stack (hover:, data-[state=open]:, [&>svg]:, …)
+    // md:hover:bg-red-500 → variants ['md', 'hover'], utility bg-red-500
+    const { variants, utility, important } = splitClassVariants(className.trim());
+    const customVariants = getCustomVariants();
+    if (!variants.every((variant) => isKnownVariant(variant, customVariants))) {
+        return null;
     }
     
     for (const { prefix, pattern } of prefixPatterns) {
-        const match = trimmed.match(pattern);
+        const match = utility.match(pattern);
 
         if (match) {
             let colorName = match[1];
+            let opacityModifier: string | undefined;
             
-            // Remove opacity modifiers like /50, /75
-            // bg-red-500/50 → red-500
-            colorName = colorName.split('/')[0];
+            // Split off opacity modifiers like /50, /[0.35], /(--opacity)
+            // bg-red-500/50 → red-500, bg-[rgb(0_0_0/0.5)]/50 → [rgb(0_0_0/0.5)]
+            const slashIdx = findModifierSlash(colorName);
+            if (slashIdx !== -1) {
+                opacityModifier = colorName.substring(slashIdx + 1) || undefined;
+                colorName = colorName.substring(0, slashIdx);
+            }
             
             return {
                 type: prefix,
                 colorName: colorName,
+                opacityModifier,
+                variants,
+                important,
             };
         }
     }
@@ -71,6 +108,304 @@ export function parseTailwindClass(className: string): TailwindClassInfo | null
     return null;
 }
 
+export type TailwindVersion = 3 | 4;
+
+/**
+ * Index of the '/' that starts an opacity modifier, ignoring slashes inside
+ * arbitrary values such as `[rgb(0_0_0/0.5)]`.
+ */
+function findModifierSlash(colorName: string): number {
+    let depth = 0;
+    for (let i = 0; i < colorName.length; i++) {
+        const ch = colorName[i];
+        if (ch === '[' || ch === '(') {
+            depth++;
+        } else if (ch === ']' || ch === ')') {
+            depth--;
+        } else if (ch === '/' && depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Decode an arbitrary color value the way Tailwind does: underscores become spaces,
+ * a bare `--x` becomes `var(--x)` and a `color:` type hint is dropped.
+ * Returns undefined for non-arbitrary names and null for non-color type hints.
+ */
+export function decodeArbitraryValue(colorName: string): string | null | undefined {
+    const match = colorName.match(arbitraryValuePattern);
+    if (!match) {
+        return undefined;
+    }
+
+    let value = match[1] !== undefined
+        ? match[1].replace(/\\_|_/g, (underscore) => (underscore === '_' ? ' ' : '_'))
+        : match[2];
+
+    const hint = value.match(typeHintPattern);
+    if (hint) {
+        if (hint[1] !== 'color') {
+            return null; // e.g. text-[length:var(--size)]
+        }
+        value = hint[2];
+    }
+
+    value = value.trim();
+    return value.startsWith('--') ? `var(${value})` : value;
+}
+
+/**
+ * Resolve an opacity modifier to a 0-1 factor: '50' → 0.5, '[0.35]' → 0.35,
+ * '[35%]' → 0.35, '(--opacity)' / '[var(--opacity)]' → the variable's value.
+ */
+export function resolveOpacityModifier(
+    modifier: string,
+    variableValues?: Map<string, string>
+): number | undefined {
+    let value = modifier.trim();
+    let percentScale = 100; // bare modifiers are percentages
+
+    const arbitrary = value.match(arbitraryValuePattern);
+    if (arbitrary) {
+        value = (arbitrary[1] ?? arbitrary[2]).trim();
+        if (value.startsWith('--')) {
+            value = `var(${value})`;
+        }
+        const reference = findVarReferences(value)[0];
+        if (reference) {
+            value = variableValues?.get(reference.name)?.trim() ?? reference.fallback ?? '';
+        }
+        percentScale = 1; // arbitrary numbers are fractions
+    }
+
+    const opacity = value.endsWith('%')
+        ? parseFloat(value) / 100
+        : parseFloat(value) / percentScale;
+
+    return Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : undefined;
+}
+
+/**
+ * Resolve a parsed Tailwind class to the color it renders, including its opacity modifier.
+ */
+export function resolveTailwindClassColor(
+    classInfo: TailwindClassInfo,
+    customColorMap: Map<string, ParsedColor>,
+    variableValues?: Map<string, string>
+): ParsedColor | null {
+    const color = resolveTailwindColor(classInfo.colorName, customColorMap);
+    if (!color || !classInfo.opacityModifier) {
+        return color;
+    }
+    const opacity = resolveOpacityModifier(classInfo.opacityModifier, variableValues);
+    return opacity === undefined ? color : applyOpacity(color, opacity);
+}
+
+/**
+ * Scale a color's alpha by an opacity factor.
+ */
+export function applyOpacity(color: ParsedColor, opacity: number): ParsedColor {
+    const alpha = Math.round((color.alpha ?? 1) * opacity * 1000) / 1000;
+    return { ...color, alpha };
+}
+
+// Colors read from the project's tailwind.config, if one was found
+let configColors: TailwindConfig | undefined;
+
+// v4: classes map to --color-* theme variables; `--color-*: initial` in @theme removes defaults
+let tailwindVersion: TailwindVersion = 3;
+let themeResets: string[] = [];
+
+/**
+ * Select Tailwind v3 or v4 class semantics. `resets` are the namespace prefixes cleared
+ * with `--<prefix>*: initial` inside @theme, e.g. '--color-' or '--color-red-'.
+ */
+export function setTailwindVersion(version: TailwindVersion, resets: string[] = []): void {
+    tailwindVersion = version;
+    themeResets = resets;
+}
+
+export function getTailwindVersion(): TailwindVersion {
+    return tailwindVersion;
+}
+
+// Variants declared with @custom-variant in CSS (v4)
+let cssCustomVariants: string[] = [];
+
+export function setCssCustomVariants(names: string[]): void {
+    cssCustomVariants = names;
+}
+
+function getCustomVariants(): string[] {
+    return configColors ? [...configColors.variants, ...cssCustomVariants] : cssCustomVariants;
+}
+
+const configVarPattern = /^(?:([a-z]+)\(\s*)?var\(\s*(--[\w-]+)\s*\)\s*\)?$/i;
+
+/**
+ * Use the colors from the project's Tailwind config for class resolution. Config colors
+ * resolve exactly as Tailwind would; other names still fall back to CSS variables.
+ */
+export function setTailwindConfig(config: TailwindConfig | undefined): void {
+    configColors = config;
+}
+
+/**
+ * The CSS variable a config color or arbitrary value refers to, e.g. 'brand' → '--brand'
+ * for `brand: 'rgb(var(--brand) / <alpha-value>)'`, or '[--brand]' → '--brand'.
+ */
+export function findTailwindColorVariable(colorName: string): string | undefined {
+    const value = decodeArbitraryValue(colorName) ?? configColors?.colors.get(colorName);
+    return value ? findVarReferences(value)[0]?.name : undefined;
+}
+
+/**
+ * The CSS variable behind a class color, following the lookup order of
+ * resolveTailwindColor step for step, so per-context values of that variable can be
+ * shown or checked.
+ */
+export function findClassVariable(colorName: string, variables: ReadonlyMap<string, unknown>): string | undefined {
+    // Arbitrary values name their variable explicitly: bg-[--brand], bg-(--brand)
+    if (decodeArbitraryValue(colorName) !== undefined) {
+        const arbitraryVar = findTailwindColorVariable(colorName);
+        return arbitraryVar && variables.has(arbitraryVar) ? arbitraryVar : undefined;
+    }
+
+    // v4: bg-brand-500 → --color-brand-500
+    if (tailwindVersion === 4 && variables.has(`--color-${colorName}`)) {
+        return `--color-${colorName}`;
+    }
+
+    // Config colors: 'rgb(var(--brand) / <alpha-value>)' → --brand, a literal → no variable
+    if (configColors?.colors.has(colorName)) {
+        const configVar = findTailwindColorVariable(colorName);
+        return configVar && variables.has(configVar) ? configVar : undefined;
+    }
+
+    if (tailwindVersion === 4) {
+        return undefined; // the rest is the default palette
+    }
+
+    const candidates = [
+        `--${colorName}`,
+        colorName.startsWith('txt-') ? `--text-${colorName.substring(4)}` : null,
+    ].filter(Boolean) as string[];
+
+    for (const candidate of candidates) {
+        if (variables.has(candidate)) {
+            return candidate;
+        }
+    }
+
+    // Normalized match, as in buildNormalizedMap: --Brand_Primary for brand-primary
+    const normalizedColor = colorName.toLowerCase().replace(/_/g, '-');
+    const normalizedCandidates = [normalizedColor, normalizedColor.replace('txt-', 'text-')];
+    for (const normalizedCandidate of normalizedCandidates) {
+        let match: string | undefined;
+        for (const key of variables.keys()) {
+            const varName = key.startsWith('--') ? key.substring(2) : key;
+            if (varName.toLowerCase().replace(/_/g, '-') === normalizedCandidate) {
+                match = key; // the last one wins, like the Map the resolver builds
+            }
+        }
+        if (match) {
+            return match;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * The class color names that read a variable by its name, e.g. '--color-brand-500' →
+ * ['brand-500'] in v4 or '--text-primary' → ['text-primary', 'txt-primary'] in v3.
+ * Config colors and fuzzy matches are left out: renaming the variable does not rename them.
+ */
+export function classColorsForVariable(varName: string): string[] {
+    if (!varName.startsWith('--')) {
+        return [];
+    }
+    if (tailwindVersion === 4) {
+        return varName.startsWith('--color-') ? [varName.substring('--color-'.length)] : [];
+    }
+    const name = varName.substring(2);
+    const names = name.startsWith('text-') ? [name, `txt-${name.substring('text-'.length)}`] : [name];
+    // Names the config defines resolve through the config, not by variable name
+    return names.filter((colorName) => !configColors?.colors.has(colorName));
+}
+
+/**
+ * Every color name classes can use with the current version, config and variables,
+ * e.g. 'red-500', 'brand' or 'txt-primary'. Used to suggest replacements for unknown colors.
+ */
+export function listClassColorNames(customColorMap: Map<string, ParsedColor>): string[] {
+    const names = new Set<string>(Object.keys(tailwindV4BaseColors));
+    const palette: Record<string, Record<string, unknown>> = tailwindVersion === 4 ? tailwindV4Colors : tailwindColors;
+    for (const [family, shades] of Object.entries(palette)) {
+        Object.keys(shades).forEach((shade) => names.add(`${family}-${shade}`));
+    }
+    configColors?.colors.forEach((_value, name) => names.add(name));
+    for (const varName of customColorMap.keys()) {
+        if (varName.startsWith('--')) {
+            const prefix = tailwindVersion === 4 && varName.startsWith('--color-') ? '--color-' : '--';
+            names.add(varName.substring(prefix.length));
+        }
+    }
+    return Array.from(names).filter((name) => resolveTailwindColor(name, customColorMap) !== null);
+}
+
+/**
+ * The variables Tailwind v4 declares in its default theme (`--color-red-500`, `--spacing`,
+ * `--font-sans`, …), minus the namespaces reset in @theme. Empty with v3 semantics.
+ */
+export function listDefaultThemeVariables(): string[] {
+    if (tailwindVersion !== 4) {
+        return [];
+    }
+    const names = Object.keys(tailwindV4BaseColors).map((name) => `--color-${name}`);
+    for (const [family, shades] of Object.entries(tailwindV4Colors)) {
+        Object.keys(shades).forEach((shade) => names.push(`--color-${family}-${shade}`));
+    }
+    names.push(...tailwindV4ThemeVariables);
+    return names.filter((name) => !themeResets.some((prefix) => name.startsWith(prefix)));
+}
+
+/**
+ * Resolve a color expression such as '#4f46e5', 'rgb(var(--brand) / <alpha-value>)'
+ * or 'hsl(var(--primary))' against the current CSS variable registry.
+ */
+function resolveColorExpression(value: string, customColorMap: Map<string, ParsedColor>): ParsedColor | null {
+    // The opacity placeholder is filled in by opacity modifiers; preview at full opacity
+    const text = value.replace(/\s*\/\s*<alpha-value>/g, '').replace(/<alpha-value>/g, '1').trim();
+
+    // fn(var(--x)) or var(--x): reuse the variable's color, read in fn's channel space
+    const wrapped = text.match(configVarPattern);
+    if (wrapped) {
+        const variableColor = customColorMap.get(wrapped[2]);
+        if (!variableColor) {
+            return null;
+        }
+        return wrapped[1] ? applyChannelSpace(variableColor, toChannelSpace(wrapped[1])) : variableColor;
+    }
+
+    // Anything else: substitute variable values textually and parse the result
+    let substituted = '';
+    let cursor = 0;
+    for (const reference of findVarReferences(text)) {
+        const replacement = customColorMap.get(reference.name)?.originalText ?? reference.fallback;
+        if (replacement === undefined) {
+            return null;
+        }
+        substituted += text.substring(cursor, reference.start) + replacement;
+        cursor = reference.end;
+    }
+    substituted += text.substring(cursor);
+
+    return parseColorValue(substituted);
+}
+
 // Normalized lookup map built lazily from the custom color map — avoids O(n) fuzzy loops.
 let normalizedMapCache: Map<string, ParsedColor> | undefined;
 let normalizedMapSource: Map<string, ParsedColor> | undefined;
@@ -97,6 +432,20 @@ export function resolveTailwindColor(
     colorName: string,
     customColorMap: Map<string, ParsedColor>
 ): ParsedColor | null {
+    const arbitraryValue = decodeArbitraryValue(colorName);
+    if (arbitraryValue !== undefined) {
+        return arbitraryValue === null ? null : resolveColorExpression(arbitraryValue, customColorMap);
+    }
+
+    if (tailwindVersion === 4) {
+        return resolveV4Color(colorName, customColorMap);
+    }
+
+    const configValue = configColors?.colors.get(colorName);
+    if (configValue !== undefined) {
+        return resolveColorExpression(configValue, customColorMap);
+    }
+
     // Direct lookup
     let customColor = customColorMap.get(`--${colorName}`);
     if (customColor) {
@@ -120,19 +469,58 @@ export function resolveTailwindColor(
         return customColor;
     }
 
+    // theme.colors replaces the default palette entirely
+    return configColors?.replacesDefaultPalette ? null : resolvePaletteColor(colorName);
+}
+
+/**
+ * v4: `bg-brand-500` reads `--color-brand-500` from @theme, then the default OKLCH
+ * palette unless its namespace was reset. A legacy JS config loaded with @config
+ * still contributes colors.
+ */
+function resolveV4Color(colorName: string, customColorMap: Map<string, ParsedColor>): ParsedColor | null {
+    const themeVariable = `--color-${colorName}`;
+    const themeColor = customColorMap.get(themeVariable);
+    if (themeColor) {
+        return themeColor;
+    }
+
+    const configValue = configColors?.colors.get(colorName);
+    if (configValue !== undefined) {
+        return resolveColorExpression(configValue, customColorMap);
+    }
+
+    if (themeResets.some((prefix) => themeVariable.startsWith(prefix))) {
+        return null;
+    }
+
+    const dashIdx = colorName.lastIndexOf('-');
+    const paletteValue = dashIdx !== -1
+        ? ownValue(ownValue(tailwindV4Colors, colorName.substring(0, dashIdx)), colorName.substring(dashIdx + 1))
+        : ownValue(tailwindV4BaseColors, colorName);
+    return paletteValue ? parseColorValue(paletteValue) : null;
+}
+
+function resolvePaletteColor(colorName: string): ParsedColor | null {
     // Standard Tailwind palette (e.g., red-500, blue-200)
     const dashIdx = colorName.lastIndexOf('-');
     if (dashIdx !== -1) {
         const color = colorName.substring(0, dashIdx);
         const shade = colorName.substring(dashIdx + 1);
-        const tailwindColor = tailwindColors[color]?.[shade];
+        const tailwindColor = ownValue(ownValue(tailwindColors, color), shade);
         if (tailwindColor) {
             return { red: tailwindColor.r, green: tailwindColor.g, blue: tailwindColor.b, originalText: colorName };
         }
     }
 
+    // black and white are the same in the v3 and v4 palettes
+    const baseColor = ownValue(tailwindV4BaseColors, colorName);
+    if (baseColor) {
+        return parseColorValue(baseColor);
+    }
+
     // Single-word color defaults to shade 500
-    const tailwindColor = tailwindColors[colorName]?.['500'];
+    const tailwindColor = ownValue(tailwindColors, colorName)?.['500'];
     if (tailwindColor) {
         return { red: tailwindColor.r, green: tailwindColor.g, blue: tailwindColor.b, originalText: colorName };
     }
@@ -140,3 +528,7 @@ export function resolveTailwindColor(
     return null;
 }
 
+// Palette lookup by class text; 'constructor' or 'toString' must not reach Object.prototype
+function ownValue<T>(record: Record<string, T> | undefined, key: string): T | undefined {
+    return record && Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
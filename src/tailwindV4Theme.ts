@@ -0,0 +1,35 @@
+// Tailwind CSS v4 default theme variables other than colors, as declared in tailwindcss/theme.css
+const sizes = (namespace: string, names: string[]) => names.map((name) => `--${namespace}-${name}`);
+const textSizes = ['xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl', '6xl', '7xl', '8xl', '9xl'];
+
+export const tailwindV4ThemeVariables: string[] = [
+    '--spacing',
+    '--aspect-video',
+    ...sizes('font', ['sans', 'serif', 'mono']),
+    ...sizes('breakpoint', ['sm', 'md', 'lg', 'xl', '2xl']),
+    ...sizes('container', ['3xs', '2xs', 'xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl', '6xl', '7xl']),
+    ...sizes('text', textSizes),
+    ...sizes('text', textSizes.map((size) => `${size}--line-height`)),
+    ...sizes('font-weight', ['thin', 'extralight', 'light', 'normal', 'medium', 'semibold', 'bold', 'extrabold', 'black']),
+    ...sizes('tracking', ['tighter', 'tight', 'normal', 'wide', 'wider', 'widest']),
+    ...sizes('leading', ['tight', 'snug', 'normal', 'relaxed', 'loose']),
+    ...sizes('radius', ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl']),
+    ...sizes('shadow', ['2xs', 'xs', 'sm', 'md', 'lg', 'xl', '2xl']),
+    ...sizes('inset-shadow', ['2xs', 'xs', 'sm']),
+    ...sizes('drop-shadow', ['xs', 'sm', 'md', 'lg', 'xl', '2xl']),
+    ...sizes('text-shadow', ['2xs', 'xs', 'sm', 'md', 'lg']),
+    ...sizes('blur', ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl']),
+    ...sizes('perspective', ['dramatic', 'near', 'normal', 'midrange', 'distant']),
+    ...sizes('ease', ['in', 'out', 'in-out']),
+    ...sizes('animate', ['spin', 'ping', 'pulse', 'bounce']),
+    ...sizes('default', [
+        'transition-duration',
+        'transition-timing-function',
+        'font-family',
+        'font-feature-settings',
+        'font-variation-settings',
+        'mono-font-family',
+        'mono-font-feature-settings',
+        'mono-font-variation-settings',
+    ]),
+];
@@ -0,0 +1,103 @@
+export interface ClassTokens {
+    variants: string[]; // ['dark', 'hover'] for dark:hover:bg-red-500
+    utility: string; // 'bg-red-500'
+    important: boolean; // !bg-red-500 (v3) or bg-red-500! (v4)
+}
+
+// Static variants built into Tailwind v3/v4
+const staticVariants = new Set([
+    // Pseudo-classes
+    'hover', 'focus', 'focus-within', 'focus-visible', 'active', 'visited', 'target',
+    'first', 'last', 'only', 'odd', 'even', 'first-of-type', 'last-of-type', 'only-of-type',
+    'empty', 'disabled', 'enabled', 'checked', 'indeterminate', 'default', 'required',
+    'optional', 'valid', 'invalid', 'user-valid', 'user-invalid', 'in-range', 'out-of-range',
+    'placeholder-shown', 'autofill', 'read-only', 'read-write', 'open', 'inert', 'details-content',
+    // Pseudo-elements
+    'before', 'after', 'first-letter', 'first-line', 'marker', 'selection', 'file',
+    'placeholder', 'backdrop',
+    // Media and environment
+    'sm', 'md', 'lg', 'xl', '2xl', 'dark', 'motion-safe', 'motion-reduce', 'contrast-more',
+    'contrast-less', 'print', 'portrait', 'landscape', 'forced-colors', 'inverted-colors',
+    'pointer-fine', 'pointer-coarse', 'pointer-none', 'any-pointer-fine', 'any-pointer-coarse',
+    'any-pointer-none', 'noscript', 'starting', 'rtl', 'ltr',
+    // Children
+    '*', '**',
+]);
+
+// Variants that take a value: aria-selected, data-[state=open], max-md, nth-3, supports-grid, …
+const functionalPrefixes = [
+    'aria', 'data', 'supports', 'min', 'max', 'nth', 'nth-last', 'nth-of-type', 'nth-last-of-type',
+];
+
+const arbitraryVariantPattern = /^\[.+\]$/; // [&>svg], [@media(min-width:900px)]
+const compoundVariantPattern = /^(group|peer|not|in|has)-(.+?)(?:\/[\w-]+)?$/;
+const containerVariantPattern = /^@(?:min-|max-)?(?:\[.+\]|[\w-]+)(?:\/[\w-]+)?$/; // @md, @max-lg, @min-[400px]
+
+/**
+ * Splits a class into its variant stack and utility, respecting ':' inside arbitrary
+ * values and variants (`supports-[display:grid]:bg-[color:var(--x)]`), and strips the
+ * important marker in either its v3 prefix or v4 suffix form.
+ */
+export function splitClassVariants(className: string): ClassTokens {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < className.length; i++) {
+        const ch = className[i];
+        if (ch === '[' || ch === '(') {
+            depth++;
+        } else if (ch === ']' || ch === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if (ch === ':' && depth === 0) {
+            parts.push(className.substring(start, i));
+            start = i + 1;
+        }
+    }
+
+    let utility = className.substring(start);
+    let important = false;
+    if (utility.startsWith('!')) {
+        utility = utility.substring(1);
+        important = true;
+    }
+    if (utility.endsWith('!')) {
+        utility = utility.substring(0, utility.length - 1);
+        important = true;
+    }
+
+    return { variants: parts, utility, important };
+}
+
+/**
+ * Whether a variant is one Tailwind would recognise: a built-in, an arbitrary
+ * `[...]` variant, a functional variant such as `group-hover/item` or
+ * `data-[state=open]`, or a custom variant from the config or `@custom-variant`.
+ */
+export function isKnownVariant(variant: string, customVariants: Iterable<string> = []): boolean {
+    if (!variant) {
+        return false;
+    }
+    if (staticVariants.has(variant) || arbitraryVariantPattern.test(variant)) {
+        return true;
+    }
+
+    for (const custom of customVariants) {
+        if (variant === custom || variant.startsWith(`${custom}-`)) {
+            return true;
+        }
+    }
+
+    // group-*/peer-* wrap another variant: group-hover/item, peer-checked, group-aria-expanded.
+    // has-*/not-* also accept arbitrary selectors: has-[>img], not-[.active]
+    const compound = variant.match(compoundVariantPattern);
+    if (compound && isKnownVariant(compound[2], customVariants)) {
+        return true;
+    }
+
+    if (containerVariantPattern.test(variant)) {
+        return true;
+    }
+
+    return functionalPrefixes.some((prefix) => variant.startsWith(`${prefix}-`) && variant.length > prefix.length + 1);
+}
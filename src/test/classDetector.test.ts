@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findClassOccurrences } from '../classDetector';
+
+const names = (text: string) => findClassOccurrences(text).map((occurrence) => occurrence.name);
+
+test('findClassOccurrences reads class attributes with offsets', () => {
+    const text = '<div className="bg-red-500 text-white">';
+    const occurrences = findClassOccurrences(text);
+    assert.deepEqual(occurrences.map((occurrence) => occurrence.name), ['bg-red-500', 'text-white']);
+    for (const occurrence of occurrences) {
+        assert.equal(text.substring(occurrence.start, occurrence.end), occurrence.name);
+    }
+    assert.equal(occurrences[0].group, occurrences[1].group);
+});
+
+test('findClassOccurrences reads class functions across lines', () => {
+    const text = `const button = cn(
+    'bg-blue-500',
+    active && "ring-red-500",
+    { 'text-white': primary }
+);`;
+    assert.deepEqual(names(text), ['bg-blue-500', 'ring-red-500', 'text-white']);
+});
+
+test('findClassOccurrences scans template literals around substitutions', () => {
+    assert.deepEqual(names('<div className={`bg-red-500 ${size} text-white`} />'), ['bg-red-500', 'text-white']);
+});
+
+test('findClassOccurrences reads framework bindings and @apply', () => {
+    assert.deepEqual(names(`<div :class="{ 'bg-red-500': on }">`), ['bg-red-500']);
+    assert.deepEqual(names('<div class:bg-red-500={on}>'), ['bg-red-500']);
+    assert.deepEqual(names('.btn { @apply bg-red-500 hover:text-white; }'), ['bg-red-500', 'hover:text-white']);
+});
+
+test('findClassOccurrences ignores strings outside class sources', () => {
+    assert.deepEqual(names(`const label = 'bg-red-500';`), []);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findClassPairs } from '../classPairs';
+import { resolveTailwindClassColor, TailwindClassInfo } from '../tailwindParser';
+import { toRgbaString } from '../colorParser';
+
+function classColors(info: TailwindClassInfo) {
+    const color = resolveTailwindClassColor(info, new Map());
+    return color ? new Map([['global', color]]) : undefined;
+}
+
+const pairsOf = (source: string, contexts: string[] = []) =>
+    findClassPairs(source, classColors, new Set(contexts)).map((pair) => ({
+        text: source.slice(pair.start, pair.end),
+        background: toRgbaString(pair.background.get('global')!),
+        contexts: pair.contexts,
+    }));
+
+test('findClassPairs pairs text and background classes from one class list', () => {
+    assert.deepEqual(pairsOf('<p class="text-black bg-white">'), [
+        { text: 'text-black', background: 'rgba(255, 255, 255, 1)', contexts: undefined },
+    ]);
+    assert.deepEqual(pairsOf('<p class="text-black">'), []);
+});
+
+test('findClassPairs ignores size, alignment and image utilities after the color class', () => {
+    assert.deepEqual(pairsOf('<p class="text-black bg-white text-sm text-center bg-cover">'), [
+        { text: 'text-black', background: 'rgba(255, 255, 255, 1)', contexts: undefined },
+    ]);
+    assert.deepEqual(pairsOf('<p class="bg-white text-black text-lg">'), [
+        { text: 'text-black', background: 'rgba(255, 255, 255, 1)', contexts: undefined },
+    ]);
+});
+
+test('findClassPairs falls back to the base class and limits variant pairs to detected contexts', () => {
+    assert.deepEqual(pairsOf('<p class="text-black bg-white dark:text-white dark:text-sm">', ['dark']), [
+        { text: 'text-black', background: 'rgba(255, 255, 255, 1)', contexts: undefined },
+        { text: 'dark:text-white', background: 'rgba(255, 255, 255, 1)', contexts: ['dark'] },
+    ]);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { deltaE2000, deltaE2000Lab, srgbToLab, Vec3 } from '../colorConversions';
+
+test('srgbToLab matches the CSS Color 4 D50 values', () => {
+    const white = srgbToLab([1, 1, 1]);
+    assert.ok(Math.abs(white[0] - 100) < 1e-3 && Math.abs(white[1]) < 1e-3 && Math.abs(white[2]) < 1e-3);
+    assert.deepEqual(srgbToLab([0, 0, 0]), [0, 0, 0]);
+});
+
+// Pairs from Sharma, Wu and Dalal, "The CIEDE2000 Color-Difference Formula" (2005)
+const sharmaPairs: Array<[Vec3, Vec3, number]> = [
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+    [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+];
+
+test('deltaE2000Lab reproduces the reference data', () => {
+    for (const [first, second, expected] of sharmaPairs) {
+        assert.equal(deltaE2000Lab(first, second).toFixed(4), expected.toFixed(4), `${first} / ${second}`);
+        assert.equal(deltaE2000Lab(second, first).toFixed(4), expected.toFixed(4), 'symmetric');
+    }
+});
+
+test('deltaE2000 is 0 for identical sRGB colors and about 100 for black and white', () => {
+    assert.equal(deltaE2000([0.2, 0.4, 0.6], [0.2, 0.4, 0.6]), 0);
+    assert.equal(Math.round(deltaE2000([0, 0, 0], [1, 1, 1])), 100);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseColorValue, ChannelSpace } from '../colorParser';
+
+const channels = (text: string, channelSpace?: ChannelSpace) => {
+    const color = parseColorValue(text, channelSpace);
+    return color && [color.red, color.green, color.blue, color.alpha];
+};
+
+test('parseColorValue reads hex and named colors', () => {
+    assert.deepEqual(channels('#4f46e5'), [79, 70, 229, undefined]);
+    assert.deepEqual(channels('#fff8'), [255, 255, 255, 0.533]);
+    assert.deepEqual(channels('RebeccaPurple'), [102, 51, 153, undefined]);
+    assert.deepEqual(channels('transparent'), [0, 0, 0, 0]);
+});
+
+test('parseColorValue ignores Object.prototype names', () => {
+    for (const text of ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'valueOf']) {
+        assert.equal(parseColorValue(text), null, text);
+    }
+});
+
+test('parseColorValue reads channel lists', () => {
+    assert.deepEqual(channels('248 250 252'), [248, 250, 252, undefined]);
+    assert.deepEqual(channels('87 91 239 / 0.2'), [87, 91, 239, 0.2]);
+    // shadcn/ui-style HSL channels
+    assert.deepEqual(channels('0 0% 100%'), [255, 255, 255, undefined]);
+    assert.deepEqual(channels('0 100% 50%', 'hsl'), [255, 0, 0, undefined]);
+});
+
+test('parseColorValue reads CSS Color 4 functions', () => {
+    assert.deepEqual(channels('rgb(255 0 0 / 50%)'), [255, 0, 0, 0.5]);
+    assert.deepEqual(channels('rgba(255, 0, 0, 0.5)'), [255, 0, 0, 0.5]);
+    assert.deepEqual(channels('hsl(120 100% 25%)'), [0, 128, 0, undefined]);
+    assert.deepEqual(channels('oklch(62.8% 0.2577 29.23)'), [255, 0, 0, undefined]);
+    assert.equal(parseColorValue('not-a-color'), null);
+});
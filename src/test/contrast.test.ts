@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { wcagContrast, apcaContrast } from '../contrast';
+import { ParsedColor } from '../colorParser';
+
+const rgb = (red: number, green: number, blue: number, alpha?: number): ParsedColor => ({ red, green, blue, alpha, originalText: '' });
+
+const black = rgb(0, 0, 0);
+const white = rgb(255, 255, 255);
+
+test('wcagContrast spans 1 to 21', () => {
+    assert.equal(wcagContrast(black, white), 21);
+    assert.equal(wcagContrast(white, black), 21);
+    assert.equal(wcagContrast(white, white), 1);
+});
+
+test('wcagContrast matches published ratios', () => {
+    // #777 on white narrowly fails AA
+    assert.equal(wcagContrast(rgb(0x77, 0x77, 0x77), white).toFixed(2), '4.48');
+    assert.equal(wcagContrast(rgb(0x76, 0x76, 0x76), white).toFixed(2), '4.54');
+});
+
+test('wcagContrast composites translucent text over the background', () => {
+    // Black at 50% over white is #808080
+    assert.equal(wcagContrast(rgb(0, 0, 0, 0.5), white), wcagContrast(rgb(127.5, 127.5, 127.5), white));
+    // A fully transparent background is white
+    assert.equal(wcagContrast(black, rgb(0, 0, 0, 0)), 21);
+});
+
+test('apcaContrast is signed by polarity', () => {
+    assert.equal(apcaContrast(black, white).toFixed(1), '106.0');
+    assert.equal(apcaContrast(white, black).toFixed(1), '-107.9');
+    assert.equal(apcaContrast(rgb(0x88, 0x88, 0x88), white).toFixed(1), '63.1');
+});
+
+test('apcaContrast is 0 for identical colors', () => {
+    assert.equal(apcaContrast(white, white), 0);
+    assert.equal(apcaContrast(rgb(0x33, 0x66, 0x99), rgb(0x33, 0x66, 0x99)), 0);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseCss, tokenizeCss, blankComments, walkDeclarations, findLineStarts, lineIndexAt, CssDeclaration, CssRule } from '../cssParser';
+
+function declarations(text: string): Array<[string, string, string[]]> {
+    const found: Array<[string, string, string[]]> = [];
+    walkDeclarations(parseCss(text).children, (declaration, rules) => {
+        found.push([declaration.property, declaration.value, rules.map((rule) => rule.prelude)]);
+    });
+    return found;
+}
+
+test('parseCss reads rules, nesting and preludes', () => {
+    const text = `:root { --bg: #fff; }
+@media (prefers-color-scheme: dark) {
+  :root { --bg: #000; }
+}`;
+    assert.deepEqual(declarations(text), [
+        ['--bg', '#fff', [':root']],
+        ['--bg', '#000', ['@media (prefers-color-scheme: dark)', ':root']],
+    ]);
+});
+
+test('parseCss skips commented-out declarations', () => {
+    const text = `:root {
+  /* --old: red; */
+  --new: blue; /* { } ; */
+}`;
+    assert.deepEqual(declarations(text), [['--new', 'blue', [':root']]]);
+    assert.equal(parseCss(text).comments.length, 2);
+});
+
+test('parseCss keeps delimiters inside strings and parentheses', () => {
+    const text = `.icon { --mask: url(data:image/svg+xml;utf8,<svg/>); --label: "a; b { c }"; --c: red }`;
+    assert.deepEqual(declarations(text), [
+        ['--mask', 'url(data:image/svg+xml;utf8,<svg/>)', ['.icon']],
+        ['--label', '"a; b { c }"', ['.icon']],
+        ['--c', 'red', ['.icon']],
+    ]);
+});
+
+test('parseCss reads declarations spanning lines and minified stylesheets', () => {
+    assert.deepEqual(declarations(`:root {\n  --shadow:\n    0 1px 2px\n    rgb(0 0 0 / 0.1);\n}`), [['--shadow', '0 1px 2px\n    rgb(0 0 0 / 0.1)', [':root']]]);
+    assert.deepEqual(declarations(':root{--a:red;--b:blue}.dark{--a:#000}'), [
+        ['--a', 'red', [':root']],
+        ['--b', 'blue', [':root']],
+        ['--a', '#000', ['.dark']],
+    ]);
+});
+
+test('parseCss separates !important and records offsets', () => {
+    const text = ':root { --brand: #4f46e5 !important; }';
+    const rule = parseCss(text).children[0] as CssRule;
+    const declaration = rule.children[0] as CssDeclaration;
+    assert.equal(declaration.value, '#4f46e5');
+    assert.equal(declaration.important, true);
+    assert.equal(text.substring(declaration.start, declaration.start + declaration.property.length), '--brand');
+    assert.equal(text.substring(declaration.valueStart, declaration.valueEnd), '#4f46e5');
+    assert.equal(text.substring(rule.start, rule.end), text.trim());
+});
+
+test('parseCss reads SCSS variables, interpolation and line comments', () => {
+    const text = `$primary: #4f46e5;
+// $unused: red;
+.btn { --bg: #{$primary}; }`;
+    assert.deepEqual(declarations(text), [
+        ['$primary', '#4f46e5', []],
+        ['--bg', '#{$primary}', ['.btn']],
+    ]);
+});
+
+test('parseCss ends Sass indented-syntax variables at the line', () => {
+    assert.deepEqual(declarations('$primary: #4f46e5\n$accent: #e11d48\n'), [
+        ['$primary', '#4f46e5', []],
+        ['$accent', '#e11d48', []],
+    ]);
+});
+
+test('parseCss is forgiving about unbalanced braces', () => {
+    assert.deepEqual(declarations('} :root { --a: red; '), [['--a', 'red', [':root']]]);
+});
+
+test('blankComments keeps offsets and line breaks', () => {
+    const text = 'a { /* one\ntwo */ color: red; }';
+    const blanked = blankComments(text, parseCss(text));
+    assert.equal(blanked.length, text.length);
+    assert.equal(blanked, `a { ${' '.repeat(6)}\n${' '.repeat(6)} color: red; }`);
+});
+
+test('tokenizeCss covers the whole text', () => {
+    const text = '.a:hover { color: "x" /* c */ }';
+    const tokens = tokenizeCss(text);
+    assert.equal(tokens.map((token) => text.substring(token.start, token.end)).join(''), text);
+});
+
+test('lineIndexAt finds the line of an offset', () => {
+    const lineStarts = findLineStarts('a\nbc\n\nd');
+    assert.deepEqual(lineStarts, [0, 2, 5, 6]);
+    assert.equal(lineIndexAt(lineStarts, 0), 0);
+    assert.equal(lineIndexAt(lineStarts, 3), 1);
+    assert.equal(lineIndexAt(lineStarts, 6), 3);
+});
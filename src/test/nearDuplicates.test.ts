@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findNearDuplicates } from '../nearDuplicates';
+import { ContextColor } from '../colorDecorationProvider';
+import { parseColorValue } from '../colorParser';
+
+function token(context: string, value: string, chain?: string[]): ContextColor {
+    const color = parseColorValue(value);
+    assert.ok(color, value);
+    return { context, color, chain };
+}
+
+const clusterNames = (clusters: ReturnType<typeof findNearDuplicates>) =>
+    clusters.map((cluster) => [cluster.context, cluster.members.map((member) => member.varName)]);
+
+test('findNearDuplicates links tokens within the threshold', () => {
+    const contextual = new Map([
+        ['--primary', [token('global', '#4f46e5')]],
+        ['--brand', [token('global', '#4f47e5')]],
+        ['--accent', [token('global', '#e11d48')]],
+    ]);
+    const clusters = findNearDuplicates(contextual, [], 1);
+    assert.deepEqual(clusterNames(clusters), [['global', ['--brand', '--primary']]]);
+    assert.ok(clusters[0].maxDistance > 0 && clusters[0].maxDistance <= 1);
+});
+
+test('findNearDuplicates is single-linkage', () => {
+    // a–b and b–c are within 1 ΔE00, a–c is not
+    const contextual = new Map([
+        ['--a', [token('global', '#808080')]],
+        ['--b', [token('global', '#838383')]],
+        ['--c', [token('global', '#868686')]],
+    ]);
+    const [cluster] = findNearDuplicates(contextual, [], 1.2);
+    assert.deepEqual(cluster.members.map((member) => member.varName), ['--a', '--b', '--c']);
+    assert.ok(cluster.maxDistance > 1.2);
+});
+
+test('findNearDuplicates reports collisions only in the context they happen', () => {
+    const contextual = new Map([
+        ['--surface', [token('global', '#ffffff'), token('dark', '#0f172a')]],
+        ['--card', [token('global', '#f1f5f9'), token('dark', '#0f172b')]],
+        ['--text', [token('global', '#000000')]],
+        ['--border', [token('global', '#000001')]],
+    ]);
+    assert.deepEqual(clusterNames(findNearDuplicates(contextual, ['dark'], 1)), [
+        ['global', ['--border', '--text']],
+        ['dark', ['--card', '--surface']],
+    ]);
+});
+
+test('findNearDuplicates skips aliases and differing alpha', () => {
+    const contextual = new Map([
+        ['--blue-600', [token('global', '#2563eb')]],
+        ['--button-bg', [token('global', '#2563eb', ['--button-bg', '--blue-600'])]],
+        ['--overlay', [token('global', 'rgb(37 99 235 / 0.5)')]],
+    ]);
+    assert.deepEqual(findNearDuplicates(contextual, [], 1), []);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findPreprocessorReferences, toVarReferences } from '../preprocessor';
+
+const names = (text: string) => findPreprocessorReferences(text).map((reference) => reference.name);
+
+test('findPreprocessorReferences finds Sass and Less variables', () => {
+    assert.deepEqual(names('color: $brand; background: tokens.$surface;'), ['$brand', '$surface']);
+    assert.deepEqual(names('border-color: map.get($colors, "primary");'), ['$colors.primary']);
+    assert.deepEqual(names('color: @primary; .@{prefix}-button {}'), ['@primary', '@prefix']);
+    assert.deepEqual(names('$brand: #4f46e5;'), []);
+});
+
+test('findPreprocessorReferences skips at-rules', () => {
+    const css = [
+        '@import "tailwindcss";',
+        '@tailwind utilities;',
+        '@layer components { .btn { @apply bg-primary; } }',
+        '@media screen and (min-width: 640px) { a { color: @link; } }',
+        '@theme inline { --color-brand: var(--brand); }',
+        '@include theme-colors;',
+    ].join('\n');
+    assert.deepEqual(names(css), ['@link']);
+});
+
+test('toVarReferences rewrites references as var()', () => {
+    assert.equal(toVarReferences('#{$brand} !default'), 'var($brand)');
+    assert.equal(toVarReferences('darken(@primary, 10%)'), 'darken(var(@primary), 10%)');
+});
@@ -0,0 +1,66 @@
+import { test, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { contextsForPrelude, resolveRuleContext, setContextSelectors, compareContexts } from '../selectorContexts';
+import { parseCss, CssRule } from '../cssParser';
+
+afterEach(() => setContextSelectors({}));
+
+test('contextsForPrelude reads theme selectors', () => {
+    for (const prelude of [
+        '.dark',
+        ':root.dark',
+        'html.dark, .dark',
+        '[data-theme="dark"]',
+        "[data-theme='dark']",
+        ':is(.dark)',
+        ':where(.dark, .dark *)',
+        '.dark .card',
+        '@media (prefers-color-scheme: dark)',
+    ]) {
+        assert.deepEqual(contextsForPrelude(prelude), ['dark'], prelude);
+    }
+});
+
+test('contextsForPrelude returns every context a selector list names', () => {
+    assert.deepEqual(contextsForPrelude('.light, .dark'), ['light', 'dark']);
+    assert.deepEqual(contextsForPrelude('[data-theme="light"], [data-theme="dark"]'), ['light', 'dark']);
+    assert.deepEqual(contextsForPrelude(':is(.light, .dark)'), ['light', 'dark']);
+});
+
+test('contextsForPrelude leaves global and neutral blocks without a context', () => {
+    for (const prelude of [':root', ':root, .light', 'html', '.sidebar .button', '.btn:hover', '@layer base', '@media (min-width: 768px)', '@media not (prefers-color-scheme: dark)']) {
+        assert.deepEqual(contextsForPrelude(prelude), [], prelude);
+    }
+});
+
+test('contextsForPrelude maps user preferences from media queries', () => {
+    assert.deepEqual(contextsForPrelude('@media (prefers-contrast: more)'), ['contrast-more']);
+    assert.deepEqual(contextsForPrelude('@media (forced-colors: active)'), ['forced-colors']);
+});
+
+test('setContextSelectors matches at-rules regardless of spacing around colons', () => {
+    setContextSelectors({ '@media (prefers-color-scheme:dark)': 'night', '@media (min-width:1440px)': 'wide' });
+    assert.deepEqual(contextsForPrelude('@media (prefers-color-scheme: dark)'), ['night']);
+    assert.deepEqual(contextsForPrelude('@media (min-width : 1440px)'), ['wide']);
+
+    setContextSelectors({ '@media (prefers-color-scheme: dark)': 'night' });
+    assert.deepEqual(contextsForPrelude('@media (prefers-color-scheme:dark)'), ['night']);
+});
+
+test('setContextSelectors maps selectors and can mark them global', () => {
+    setContextSelectors({ '[data-theme = "midnight"]': 'midnight', '.card': 'global', '.brand': '.acme' });
+    assert.deepEqual(contextsForPrelude('[data-theme=midnight]'), ['midnight']);
+    assert.deepEqual(contextsForPrelude('.card'), []);
+    assert.deepEqual(contextsForPrelude('.brand .button'), ['acme']);
+});
+
+test('resolveRuleContext inherits the enclosing context', () => {
+    const [media] = parseCss('@media (prefers-color-scheme: dark) { :root { --bg: #000; } }').children as CssRule[];
+    const outer = resolveRuleContext(media, { contexts: ['global'] });
+    assert.deepEqual(outer, { contexts: ['dark'], source: '@media (prefers-color-scheme: dark)' });
+    assert.equal(resolveRuleContext(media.children[0] as CssRule, outer), outer);
+});
+
+test('compareContexts orders global, light and dark first', () => {
+    assert.deepEqual(['midnight', 'dark', 'contrast-more', 'global', 'light'].sort(compareContexts), ['global', 'light', 'dark', 'contrast-more', 'midnight']);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseTailwindConfig } from '../tailwindConfig';
+
+test('parseTailwindConfig flattens nested colors and DEFAULT keys', () => {
+    const config = parseTailwindConfig(`module.exports = {
+  theme: {
+    extend: {
+      colors: {
+        brand: { DEFAULT: 'rgb(var(--brand) / <alpha-value>)', dark: '#312e81' },
+      },
+    },
+  },
+}`);
+    assert.deepEqual(Array.from(config?.colors ?? []), [
+        ['brand', 'rgb(var(--brand) / <alpha-value>)'],
+        ['brand-dark', '#312e81'],
+    ]);
+    assert.equal(config?.replacesDefaultPalette, false);
+});
+
+test('parseTailwindConfig reads palette references and declared objects', () => {
+    const config = parseTailwindConfig(`const colors = require('tailwindcss/colors');
+const brand = { 500: '#4f46e5' };
+module.exports = {
+  theme: {
+    colors: {
+      slate: colors.slate,
+      brand,
+    },
+  },
+}`);
+    assert.equal(config?.colors.get('slate-500'), 'rgb(100 116 139)');
+    assert.equal(config?.colors.get('brand-500'), '#4f46e5');
+    assert.equal(config?.replacesDefaultPalette, true);
+});
+
+test('parseTailwindConfig keeps single-value palette members', () => {
+    const config = parseTailwindConfig(`const colors = require('tailwindcss/colors');
+module.exports = {
+  theme: {
+    colors: {
+      white: colors.white,
+      black: colors.black,
+      transparent: colors.transparent,
+      current: colors.current,
+      slate: colors.slate,
+    },
+  },
+}`);
+    assert.equal(config?.colors.get('white'), '#fff');
+    assert.equal(config?.colors.get('black'), '#000');
+    assert.equal(config?.colors.get('transparent'), 'transparent');
+    assert.equal(config?.colors.get('current'), 'currentColor');
+    assert.equal(config?.colors.get('slate-500'), 'rgb(100 116 139)');
+    assert.equal(config?.colors.has('constructor'), false);
+    assert.equal(config?.replacesDefaultPalette, true);
+});
+
+test('parseTailwindConfig does not replace the palette with colors it cannot read', () => {
+    const config = parseTailwindConfig(`module.exports = { theme: { colors: require('./colors') } }`);
+    assert.equal(config?.colors.size, 0);
+    assert.equal(config?.replacesDefaultPalette, false);
+});
+
+test('parseTailwindConfig collects custom variants', () => {
+    const config = parseTailwindConfig(`module.exports = {
+  theme: { extend: { screens: { tablet: '640px' } } },
+  plugins: [plugin(({ addVariant }) => addVariant('optional', '&:optional'))],
+}`);
+    assert.deepEqual(config?.variants, ['optional', 'tablet']);
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseTailwindClass, resolveTailwindColor, findClassVariable, setTailwindConfig, setTailwindVersion, listDefaultThemeVariables } from '../tailwindParser';
+import { parseTailwindConfig } from '../tailwindConfig';
+import { ParsedColor } from '../colorParser';
+
+const brand: ParsedColor = { red: 79, green: 70, blue: 229, originalText: '#4f46e5' };
+
+test('parseTailwindClass reads the longest color prefix', () => {
+    for (const [className, type] of [
+        ['border-b-gray-200', 'border-b'],
+        ['border-t-red-500', 'border-t'],
+        ['border-x-slate-200', 'border-x'],
+        ['ring-offset-red-500', 'ring-offset'],
+        ['text-shadow-red-500', 'text-shadow'],
+        ['inset-ring-red-500', 'inset-ring'],
+        ['placeholder-red-500', 'placeholder'],
+    ]) {
+        const info = parseTailwindClass(className);
+        assert.equal(info?.type, type, className);
+        assert.equal(info?.colorName, className.substring(type.length + 1), className);
+    }
+    assert.equal(parseTailwindClass('text-red-500')?.type, 'text');
+    assert.equal(parseTailwindClass('border-red-500')?.type, 'border');
+});
+
+test('parseTailwindClass splits variants, important markers and opacity modifiers', () => {
+    assert.deepEqual(parseTailwindClass('dark:hover:!bg-red-500/50'), {
+        type: 'bg',
+        colorName: 'red-500',
+        opacityModifier: '50',
+        variants: ['dark', 'hover'],
+        important: true,
+    });
+    assert.equal(parseTailwindClass('bg-[rgb(0_0_0/0.5)]/25')?.colorName, '[rgb(0_0_0/0.5)]');
+    assert.equal(parseTailwindClass('unknown-variant:bg-red-500'), null);
+});
+
+test('resolveTailwindColor ignores Object.prototype names', () => {
+    const colors = new Map<string, ParsedColor>();
+    assert.equal(resolveTailwindColor('constructor', colors), null);
+    assert.equal(resolveTailwindColor('toString-500', colors), null);
+    assert.equal(resolveTailwindColor('__proto__', colors), null);
+});
+
+test('resolveTailwindColor falls back to variables for names the config does not define', () => {
+    setTailwindVersion(3);
+    setTailwindConfig(parseTailwindConfig(`module.exports = { theme: { extend: { fontFamily: { sans: ['Inter'] } } } }`) ?? undefined);
+    const colors = new Map([['--brand', brand], ['--text-primary', brand]]);
+    assert.equal(resolveTailwindColor('brand', colors), brand);
+    assert.equal(resolveTailwindColor('txt-primary', colors), brand);
+    assert.equal(resolveTailwindColor('red-500', colors)?.red, 239);
+    setTailwindConfig(undefined);
+});
+
+test('resolveTailwindColor keeps the default palette when theme.colors is not static', () => {
+    setTailwindVersion(3);
+    setTailwindConfig(parseTailwindConfig(`module.exports = { theme: { colors: require('./colors') } }`) ?? undefined);
+    assert.equal(resolveTailwindColor('red-500', new Map())?.red, 239);
+    assert.equal(resolveTailwindColor('brand', new Map([['--brand', brand]])), brand);
+
+    setTailwindConfig(parseTailwindConfig(`module.exports = { theme: { colors: { brand: '#4f46e5' } } }`) ?? undefined);
+    assert.equal(resolveTailwindColor('red-500', new Map()), null);
+    setTailwindConfig(undefined);
+});
+
+test('findClassVariable follows the resolver and never matches by suffix', () => {
+    setTailwindVersion(3);
+    const variables = new Map<string, unknown>([['--sidebar-primary', 1], ['--text-primary', 1], ['--Brand_Accent', 1]]);
+    assert.equal(findClassVariable('primary', variables), undefined);
+    assert.equal(findClassVariable('txt-primary', variables), '--text-primary');
+    assert.equal(findClassVariable('brand-accent', variables), '--Brand_Accent');
+    assert.equal(findClassVariable('[--sidebar-primary]', variables), '--sidebar-primary');
+
+    setTailwindConfig(parseTailwindConfig(`module.exports = { theme: { extend: { colors: { primary: '#000' } } } }`) ?? undefined);
+    variables.set('--primary', 1);
+    assert.equal(findClassVariable('primary', variables), undefined); // the config's literal wins
+    setTailwindConfig(undefined);
+
+    setTailwindVersion(4);
+    assert.equal(findClassVariable('primary', variables), undefined); // v4 reads --color-*
+    variables.set('--color-primary', 1);
+    assert.equal(findClassVariable('primary', variables), '--color-primary');
+    setTailwindVersion(3);
+});
+
+test('listDefaultThemeVariables lists the v4 default theme minus reset namespaces', () => {
+    setTailwindVersion(3);
+    assert.deepEqual(listDefaultThemeVariables(), []);
+
+    setTailwindVersion(4);
+    const defaults = listDefaultThemeVariables();
+    for (const name of ['--color-red-500', '--color-white', '--spacing', '--font-sans', '--text-sm--line-height']) {
+        assert.ok(defaults.includes(name), name);
+    }
+
+    setTailwindVersion(4, ['--color-']);
+    assert.ok(!listDefaultThemeVariables().includes('--color-red-500'));
+    assert.ok(listDefaultThemeVariables().includes('--spacing'));
+    setTailwindVersion(3);
+});
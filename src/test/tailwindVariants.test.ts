@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { splitClassVariants, isKnownVariant } from '../tailwindVariants';
+
+test('splitClassVariants splits on top-level colons only', () => {
+    assert.deepEqual(splitClassVariants('dark:hover:bg-red-500'), { variants: ['dark', 'hover'], utility: 'bg-red-500', important: false });
+    assert.deepEqual(splitClassVariants('supports-[display:grid]:bg-[color:var(--x)]'), {
+        variants: ['supports-[display:grid]'],
+        utility: 'bg-[color:var(--x)]',
+        important: false,
+    });
+    assert.deepEqual(splitClassVariants('[&>svg]:fill-red-500').variants, ['[&>svg]']);
+});
+
+test('splitClassVariants strips the important marker in both forms', () => {
+    assert.deepEqual(splitClassVariants('md:!bg-red-500'), { variants: ['md'], utility: 'bg-red-500', important: true });
+    assert.deepEqual(splitClassVariants('bg-red-500!'), { variants: [], utility: 'bg-red-500', important: true });
+});
+
+test('isKnownVariant accepts built-in, functional, arbitrary and custom variants', () => {
+    for (const variant of ['hover', 'dark', '2xl', 'data-[state=open]', 'aria-selected', 'group-hover/item', 'peer-focus', '@max-lg', '[&>svg]', 'max-md', 'nth-3']) {
+        assert.equal(isKnownVariant(variant), true, variant);
+    }
+    assert.equal(isKnownVariant('tablet'), false);
+    assert.equal(isKnownVariant('tablet', ['tablet']), true);
+    assert.equal(isKnownVariant(''), false);
+});
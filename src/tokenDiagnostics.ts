@@ -0,0 +1,326 @@
+import * as vscode from 'vscode';
+import { parseColorValue, ParsedColor } from './colorParser';
+import { deltaEOK } from './colorConversions';
+import { findVarReferences, VarReference } from './aliasResolver';
+import {
+    parseTailwindClass,
+    resolveTailwindColor,
+    decodeArbitraryValue,
+    listClassColorNames,
+    listDefaultThemeVariables,
+    TailwindClassInfo,
+} from './tailwindParser';
+import { ColorDecorationProvider } from './colorDecorationProvider';
+import { findClassOccurrences } from './classDetector';
+import { extractStyleBlocks, STYLE_BLOCK_LANGUAGES, STYLESHEET_LANGUAGES } from './styleBlocks';
+import { parseCss, blankComments } from './cssParser';
+
+export const IGNORE_VARIABLE_COMMAND = 'cssColorPreview.ignoreVariable';
+
+const UNDEFINED_VARIABLE = 'undefined-variable';
+const UNKNOWN_CLASS = 'unknown-class';
+const MAX_SUGGESTIONS = 3;
+
+// Unresolved class colors that still look like tokens: bg-brnad-500, text-slate-1000
+const shadedColorPattern = /^[a-z][\w-]*-(?:50|[1-9]00|950)$/i;
+// CSS keywords Tailwind accepts as colors without defining them
+const colorKeywords = new Set(['inherit', 'current', 'currentColor', 'transparent']);
+// Custom properties declared in the document itself, which may not be indexed yet
+const localDefinitionPattern = /(?:@property\s+)?(--[\w-]+)\s*(?::|\{)/g;
+
+/**
+ * Warns about `var()` references to variables that are defined nowhere in the workspace
+ * and color classes whose color does not resolve, and offers quick fixes replacing them
+ * with the closest existing token by name, or by color when a fallback color is given.
+ * Variables matching `trueColors.ignoredVariables` are never reported.
+ */
+export class TokenDiagnostics implements vscode.Disposable, vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('trueColors.tokens');
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public update(document: vscode.TextDocument): void {
+        const config = vscode.workspace.getConfiguration('trueColors');
+        if (!config.get<boolean>('undefinedTokenDiagnostics', true)) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const text = textWithoutComments(document);
+        // Nothing is indexed yet (or the workspace has no variables): every reference is external
+        if (this.decorationProvider.getVariableValues().size === 0) {
+            this.collection.delete(document.uri);
+            return;
+        }
+        const knownVariables = this.getKnownVariables(text);
+
+        const ignored = getIgnorePatterns();
+        const isUnknown = (name: string) => name.startsWith('--') && !knownVariables.has(name) && !ignored.some((pattern) => pattern.test(name));
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const reference of findAllVarReferences(text)) {
+            if (!isUnknown(reference.name)) {
+                continue;
+            }
+            const start = text.indexOf(reference.name, reference.start);
+            const message = reference.fallback !== undefined
+                ? `Undefined variable '${reference.name}', the fallback is always used`
+                : `Undefined variable '${reference.name}'`;
+            diagnostics.push(this.createDiagnostic(document, start, start + reference.name.length, message, UNDEFINED_VARIABLE));
+        }
+
+        const customColorMap = this.decorationProvider.getGlobalColorVariables();
+        let classColorNames: string[] | undefined;
+        for (const occurrence of findClassOccurrences(text)) {
+            const info = parseTailwindClass(occurrence.name);
+            if (!info) {
+                continue;
+            }
+
+            // bg-[--brand] and bg-(--brand) name a variable without writing var()
+            const arbitraryValue = decodeArbitraryValue(info.colorName);
+            if (arbitraryValue !== undefined) {
+                const variable = /^[[(]--/.test(info.colorName) ? findVarReferences(arbitraryValue ?? '')[0]?.name : undefined;
+                if (variable && isUnknown(variable)) {
+                    const message = `Undefined variable '${variable}' in class '${occurrence.name}'`;
+                    diagnostics.push(this.createDiagnostic(document, occurrence.start, occurrence.end, message, UNKNOWN_CLASS));
+                }
+                continue;
+            }
+
+            if (colorKeywords.has(info.colorName) || resolveTailwindColor(info.colorName, customColorMap)) {
+                continue;
+            }
+            // A utility with a longer prefix this parser doesn't list yet: foo-bar-red-500
+            const dashIdx = info.colorName.indexOf('-');
+            const remainder = dashIdx === -1 ? '' : info.colorName.substring(dashIdx + 1);
+            if (remainder && (colorKeywords.has(remainder) || resolveTailwindColor(remainder, customColorMap))) {
+                continue;
+            }
+            // text-lg, border-2 and bg-cover share the color prefixes; only names that look
+            // like a color token or are a typo away from one are reported
+            if (!shadedColorPattern.test(info.colorName) && closestNames(info.colorName, classColorNames ??= listClassColorNames(customColorMap)).length === 0) {
+                continue;
+            }
+            const message = `Unknown color '${info.colorName}' in class '${occurrence.name}'`;
+            diagnostics.push(this.createDiagnostic(document, occurrence.start, occurrence.end, message, UNKNOWN_CLASS));
+        }
+
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    public clear(uri: vscode.Uri): void {
+        this.collection.delete(uri);
+    }
+
+    public dispose(): void {
+        this.collection.dispose();
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'True Colors') {
+                continue;
+            }
+            if (diagnostic.code === UNDEFINED_VARIABLE) {
+                actions.push(...this.variableFixes(document, diagnostic));
+            } else if (diagnostic.code === UNKNOWN_CLASS) {
+                actions.push(...this.classFixes(document, diagnostic));
+            }
+        }
+
+        return actions;
+    }
+
+    private variableFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const name = document.getText(diagnostic.range);
+        const text = textWithoutComments(document);
+        const knownVariables = this.getKnownVariables(text);
+        const actions = closestNames(name, knownVariables).map((suggestion, index) =>
+            this.replaceAction(document, diagnostic, diagnostic.range, suggestion, `Replace with '${suggestion}'`, index === 0)
+        );
+
+        // var(--x, #1da1f2): also offer the tokens whose color is closest to the fallback
+        const offset = document.offsetAt(diagnostic.range.start);
+        const reference = findAllVarReferences(text).filter((ref) => ref.start < offset && offset < ref.end).pop(); // innermost
+        const fallbackColor = reference?.fallback !== undefined ? parseColorValue(reference.fallback) : null;
+        if (fallbackColor) {
+            const suggested = new Set(actions.map((action) => action.title));
+            for (const { name: suggestion, distance } of closestColors(fallbackColor, this.decorationProvider.getGlobalColorVariables())) {
+                const title = `Replace with '${suggestion}' (closest color, ΔE ${distance.toFixed(1)})`;
+                if (!suggested.has(`Replace with '${suggestion}'`)) {
+                    actions.push(this.replaceAction(document, diagnostic, diagnostic.range, suggestion, title, false));
+                }
+            }
+        }
+
+        const ignore = new vscode.CodeAction(`Ignore '${name}' in this workspace`, vscode.CodeActionKind.QuickFix);
+        ignore.diagnostics = [diagnostic];
+        ignore.command = { title: ignore.title, command: IGNORE_VARIABLE_COMMAND, arguments: [name] };
+        actions.push(ignore);
+        return actions;
+    }
+
+    private classFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const className = document.getText(diagnostic.range);
+        const info = parseTailwindClass(className);
+        if (!info) {
+            return [];
+        }
+
+        // Replace only the color, keeping variants and the opacity modifier: dark:bg-brnad-500/50
+        const utility = `${info.type}-${info.colorName}`;
+        const colorStart = document.offsetAt(diagnostic.range.start) + className.lastIndexOf(utility) + info.type.length + 1;
+        const colorRange = new vscode.Range(
+            document.positionAt(colorStart),
+            document.positionAt(colorStart + info.colorName.length)
+        );
+
+        return this.classSuggestions(info).map((suggestion, index) =>
+            this.replaceAction(document, diagnostic, colorRange, suggestion, `Replace with '${info.type}-${suggestion}'`, index === 0)
+        );
+    }
+
+    private classSuggestions(info: TailwindClassInfo): string[] {
+        const customColorMap = this.decorationProvider.getGlobalColorVariables();
+        if (decodeArbitraryValue(info.colorName) === undefined) {
+            return closestNames(info.colorName, listClassColorNames(customColorMap));
+        }
+        // bg-[--brnad] → bg-[--brand]
+        const variable = info.colorName.substring(1, info.colorName.length - 1);
+        const brackets = [info.colorName[0], info.colorName[info.colorName.length - 1]];
+        return closestNames(variable, this.decorationProvider.getVariableValues().keys())
+            .map((suggestion) => `${brackets[0]}${suggestion}${brackets[1]}`);
+    }
+
+    private replaceAction(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        range: vscode.Range,
+        replacement: string,
+        title: string,
+        isPreferred: boolean
+    ): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = isPreferred;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, range, replacement);
+        return action;
+    }
+
+    private createDiagnostic(
+        document: vscode.TextDocument,
+        start: number,
+        end: number,
+        message: string,
+        code: string
+    ): vscode.Diagnostic {
+        const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = 'True Colors';
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    // Every indexed custom property (colors or not), the ones declared in this document
+    // and, with Tailwind v4, the default theme variables
+    private getKnownVariables(text: string): Set<string> {
+        const known = new Set([...this.decorationProvider.getVariableValues().keys(), ...listDefaultThemeVariables()]);
+        localDefinitionPattern.lastIndex = 0;
+        let match;
+        while ((match = localDefinitionPattern.exec(text)) !== null) {
+            known.add(match[1]);
+        }
+        return known;
+    }
+}
+
+// Comments blanked out, keeping offsets; stylesheets and <style> blocks are parsed
+function textWithoutComments(document: vscode.TextDocument): string {
+    const source = document.getText();
+    const styleText = STYLESHEET_LANGUAGES.has(document.languageId)
+        ? source
+        : STYLE_BLOCK_LANGUAGES.has(document.languageId) ? extractStyleBlocks(source) : undefined;
+    return styleText !== undefined
+        ? blankComments(source, parseCss(styleText))
+        : source.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '));
+}
+
+// var() references including the ones nested in fallbacks: var(--a, var(--b))
+function findAllVarReferences(text: string, offset = 0): VarReference[] {
+    const references: VarReference[] = [];
+    for (const reference of findVarReferences(text)) {
+        references.push({ ...reference, start: reference.start + offset, end: reference.end + offset });
+        if (reference.fallback?.includes('var(')) {
+            const fallbackStart = text.lastIndexOf(reference.fallback, reference.end);
+            references.push(...findAllVarReferences(reference.fallback, offset + fallbackStart));
+        }
+    }
+    return references;
+}
+
+// `--tw-*` style globs from trueColors.ignoredVariables
+function getIgnorePatterns(): RegExp[] {
+    const names = vscode.workspace.getConfiguration('trueColors').get<string[]>('ignoredVariables', ['--tw-*']);
+    return names.map((name) => new RegExp(`^${name.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`));
+}
+
+/**
+ * Names within a few edits of `name` (a typo away), closest first.
+ */
+function closestNames(name: string, candidates: Iterable<string>): string[] {
+    const maxDistance = Math.max(1, Math.floor(name.length / 4));
+    const scored: Array<{ candidate: string; distance: number }> = [];
+    for (const candidate of candidates) {
+        if (candidate === name || Math.abs(candidate.length - name.length) > maxDistance) {
+            continue;
+        }
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (distance <= maxDistance) {
+            scored.push({ candidate, distance });
+        }
+    }
+    return scored
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(({ candidate }) => candidate);
+}
+
+function closestColors(color: ParsedColor, variables: Map<string, ParsedColor>): Array<{ name: string; distance: number }> {
+    const target: [number, number, number] = [color.red / 255, color.green / 255, color.blue / 255];
+    return Array.from(variables.entries())
+        .filter(([name]) => name.startsWith('--'))
+        .map(([name, candidate]) => ({
+            name,
+            distance: deltaEOK(target, [candidate.red / 255, candidate.green / 255, candidate.blue / 255]),
+        }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, MAX_SUGGESTIONS);
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps
+function editDistance(a: string, b: string): number {
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) {
+        rows[0][j] = j;
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
@@ -0,0 +1,151 @@
+import { ParsedColor } from './colorParser';
+import { formatColorAs } from './colorFormatter';
+import { ContextColor } from './colorDecorationProvider';
+import { compareContexts } from './selectorContexts';
+
+export type ExportFormat = 'dtcg' | 'typescript' | 'tailwind' | 'style-dictionary';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string; fileName: string }> = {
+    dtcg: { label: 'W3C Design Tokens (DTCG)', description: '$value / $type JSON, one group per context', fileName: 'tokens.json' },
+    typescript: { label: 'TypeScript module', description: 'Typed constant with a value per context', fileName: 'colors.ts' },
+    tailwind: { label: 'Tailwind preset', description: 'theme.extend.colors reading the CSS variables', fileName: 'tailwind.preset.js' },
+    'style-dictionary': { label: 'Style Dictionary', description: 'value / type JSON source, one group per context', fileName: 'tokens.style-dictionary.json' },
+};
+
+// Key under $extensions carrying what DTCG has no field for: the variable name and the value as written
+export const DTCG_EXTENSION_KEY = 'aryak-lahane.true-colors';
+
+const GENERATED_NOTICE = 'Generated by True Colors from the workspace color tokens. Re-run "True Colors: Export Color Tokens" instead of editing.';
+
+/**
+ * Serializes the indexed color registry. Output is deterministic (names and contexts
+ * are sorted) so an export can be committed and re-run without noise. Aliases stay
+ * references where the format has them (`{global.blue-600}`), and are resolved to
+ * their value elsewhere.
+ */
+export function exportTokens(contextual: Map<string, ContextColor[]>, format: ExportFormat): string {
+    switch (format) {
+        case 'dtcg':
+            return toJson(groupByContext(contextual, (name, { color, target }) => ({
+                $type: 'color',
+                $value: target ? `{${target}}` : toHex(color),
+                $extensions: { [DTCG_EXTENSION_KEY]: { variable: name, value: color.originalText } },
+            })));
+        case 'style-dictionary':
+            return toJson(groupByContext(contextual, (name, { color, target }) => ({
+                value: target ? `{${target}.value}` : toHex(color),
+                type: 'color',
+                comment: `${name}: ${color.originalText}`,
+            })));
+        case 'typescript':
+            return toTypeScript(contextual);
+        case 'tailwind':
+            return toTailwindPreset(contextual);
+    }
+}
+
+/**
+ * The name a variable is exported under: `--brand-500` → `brand-500`,
+ * `$colors.primary` → `colors-primary`. DTCG reserves `.` for references.
+ */
+export function toTokenKey(varName: string): string {
+    return varName.replace(/^(?:--|\$|@)/, '').replace(/\./g, '-');
+}
+
+type ExportedColor = { color: ParsedColor; target?: string }; // target: 'context.key' of the aliased token
+
+// { global: { 'brand-500': … }, light: { … }, dark: { … } }
+function groupByContext(
+    contextual: Map<string, ContextColor[]>,
+    toToken: (varName: string, exported: ExportedColor) => object
+): Record<string, Record<string, object>> {
+    const groups: Record<string, Record<string, object>> = {};
+    for (const context of collectContexts(contextual)) {
+        const group: Record<string, object> = {};
+        for (const varName of sortedNames(contextual)) {
+            const contextColor = contextual.get(varName)?.find((candidate) => candidate.context === context);
+            const key = toTokenKey(varName);
+            if (contextColor && !(key in group)) {
+                group[key] = toToken(varName, { color: contextColor.color, target: aliasTarget(contextual, contextColor) });
+            }
+        }
+        groups[context] = group;
+    }
+    return groups;
+}
+
+// The token an alias points at, in the same context if it has one there, else global
+function aliasTarget(contextual: Map<string, ContextColor[]>, { context, chain }: ContextColor): string | undefined {
+    const target = chain?.[1];
+    const targetContexts = target ? (contextual.get(target) ?? []).map((candidate) => candidate.context) : [];
+    const targetContext = targetContexts.includes(context) ? context : targetContexts.includes('global') ? 'global' : undefined;
+    return target && targetContext ? `${targetContext}.${toTokenKey(target)}` : undefined;
+}
+
+function toTypeScript(contextual: Map<string, ContextColor[]>): string {
+    const contexts = collectContexts(contextual);
+    const lines = [`// ${GENERATED_NOTICE}`, '', 'export const colorTokens = {'];
+    for (const varName of sortedNames(contextual)) {
+        const contextColors = (contextual.get(varName) ?? []).slice().sort((a, b) => compareContexts(a.context, b.context));
+        lines.push(`    ${JSON.stringify(varName)}: {`);
+        for (const { context, color, chain } of contextColors) {
+            const via = chain && chain.length > 1 ? ` // ${chain.slice(1).join(' → ')}` : '';
+            lines.push(`        ${toPropertyKey(context)}: ${JSON.stringify(toHex(color))},${via}`);
+        }
+        lines.push('    },');
+    }
+    lines.push(
+        '} as const;',
+        '',
+        'export type ColorToken = keyof typeof colorTokens;',
+        `export type ColorContext = ${contexts.map((context) => JSON.stringify(context)).join(' | ') || 'never'};`,
+        ''
+    );
+    return lines.join('\n');
+}
+
+/**
+ * Only custom properties exist at runtime, so only they are in the preset. Channel
+ * variables take Tailwind's opacity through `<alpha-value>`; complete colors through
+ * color-mix().
+ */
+function toTailwindPreset(contextual: Map<string, ContextColor[]>): string {
+    const lines = [`// ${GENERATED_NOTICE}`, '', '/** @type {import(\'tailwindcss\').Config} */', 'module.exports = {', '    theme: {', '        extend: {', '            colors: {'];
+    const written = new Set<string>();
+    for (const varName of sortedNames(contextual)) {
+        const key = toTokenKey(varName).replace(/^color-/, '');
+        if (!varName.startsWith('--') || written.has(key)) {
+            continue;
+        }
+        written.add(key);
+        const color = contextual.get(varName)?.[0]?.color;
+        const value = color?.format === 'channels' && ['rgb', 'hsl'].includes(color.channelSpace ?? 'rgb')
+            ? `${color.channelSpace ?? 'rgb'}(var(${varName}) / <alpha-value>)`
+            : `color-mix(in srgb, var(${varName}) calc(<alpha-value> * 100%), transparent)`;
+        lines.push(`                ${JSON.stringify(key)}: ${JSON.stringify(value)},`);
+    }
+    lines.push('            },', '        },', '    },', '};', '');
+    return lines.join('\n');
+}
+
+function collectContexts(contextual: Map<string, ContextColor[]>): string[] {
+    const contexts = new Set<string>();
+    contextual.forEach((contextColors) => contextColors.forEach(({ context }) => contexts.add(context)));
+    return Array.from(contexts).sort(compareContexts);
+}
+
+function sortedNames(contextual: Map<string, ContextColor[]>): string[] {
+    return Array.from(contextual.keys()).sort();
+}
+
+function toHex(color: ParsedColor): string {
+    return formatColorAs({ red: color.red / 255, green: color.green / 255, blue: color.blue / 255, alpha: color.alpha ?? 1 }, 'hex');
+}
+
+function toPropertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function toJson(value: object): string {
+    return `${JSON.stringify(value, null, 2)}\n`;
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { parseTailwindClass, classColorsForVariable } from './tailwindParser';
+import { findClassOccurrences, ClassOccurrence } from './classDetector';
+import { findPreprocessorReferences } from './preprocessor';
+import { extractStyleBlocks } from './styleBlocks';
+import { parseCss, blankComments, walkDeclarations, findLineStarts, lineIndexAt } from './cssParser';
+
+export type TokenOccurrenceKind = 'definition' | 'usage' | 'class';
+
+/**
+ * Where a token's name is written: `--x:` (definition), `var(--x)`, `$x`, `@x` or
+ * `bg-[--x]` (usage), or the color part of a class reading the variable by name (class).
+ */
+export interface TokenOccurrence {
+    uri: vscode.Uri;
+    range: vscode.Range; // the name itself; for classes, the color part ('brand-500' in bg-brand-500)
+    kind: TokenOccurrenceKind;
+    text: string; // what the range holds, e.g. '--brand', 'brand' or 'txt-primary'
+}
+
+interface IndexedName {
+    name: string;
+    start: number;
+    end: number;
+    kind: 'definition' | 'usage';
+}
+
+interface IndexedFile {
+    key: string; // mtime, or the version of an open document
+    lineStarts: number[];
+    names: IndexedName[];
+    classes: ClassOccurrence[];
+}
+
+const STYLESHEET_EXTENSIONS = /\.(?:css|scss|sass|less|pcss|postcss)$/i;
+const PREPROCESSOR_EXTENSIONS = /\.(?:scss|sass|less|vue|svelte|astro|html)$/i;
+const COMPONENT_EXTENSIONS = /\.(?:vue|svelte|astro|html)$/i;
+const MAX_FILE_SIZE = 1024 * 1024;
+
+const varUsagePattern = /var\(\s*(--[\w-]+)/g;
+const arbitraryVariablePattern = /^[[(](--[\w-]+)[\])]$/;
+
+/**
+ * Definitions and usages of every variable across the workspace, read from disk (or
+ * from the editor for open documents) and re-read only when a file changes. Backs
+ * Find All References, Rename and the ranking of completions.
+ */
+export class TokenIndex implements vscode.Disposable {
+    private files: Map<string, IndexedFile> = new Map(); // fsPath -> indexed contents
+
+    constructor(private readonly include: string, private readonly exclude: string) {}
+
+    public dispose(): void {
+        this.files.clear();
+    }
+
+    /**
+     * Every place `varName` is written. Class occurrences follow the current Tailwind
+     * mapping, so they are computed at query time from the indexed class lists.
+     */
+    public async findOccurrences(varName: string, token?: vscode.CancellationToken): Promise<TokenOccurrence[]> {
+        await this.refresh(token);
+
+        const classColors = classColorsForVariable(varName);
+        const occurrences: TokenOccurrence[] = [];
+        this.files.forEach((file, fsPath) => {
+            const uri = vscode.Uri.file(fsPath);
+            const toRange = (start: number, end: number) => new vscode.Range(
+                positionAt(file.lineStarts, start),
+                positionAt(file.lineStarts, end)
+            );
+
+            for (const name of file.names) {
+                if (name.name === varName) {
+                    occurrences.push({ uri, range: toRange(name.start, name.end), kind: name.kind, text: varName });
+                }
+            }
+
+            for (const occurrence of file.classes) {
+                const info = parseTailwindClass(occurrence.name);
+                if (!info) {
+                    continue;
+                }
+                const utility = `${info.type}-${info.colorName}`;
+                const colorStart = occurrence.start + occurrence.name.lastIndexOf(utility) + info.type.length + 1;
+
+                // bg-[--brand] and bg-(--brand) write the variable without var()
+                if (info.colorName.match(arbitraryVariablePattern)?.[1] === varName) {
+                    occurrences.push({ uri, range: toRange(colorStart + 1, colorStart + 1 + varName.length), kind: 'usage', text: varName });
+                } else if (classColors.includes(info.colorName)) {
+                    occurrences.push({ uri, range: toRange(colorStart, colorStart + info.colorName.length), kind: 'class', text: info.colorName });
+                }
+
+                // Opacity modifiers: bg-red-500/(--opacity), bg-red-500/[--opacity]
+                if (info.opacityModifier?.match(arbitraryVariablePattern)?.[1] === varName) {
+                    const modifierStart = colorStart + info.colorName.length + 2;
+                    occurrences.push({ uri, range: toRange(modifierStart, modifierStart + varName.length), kind: 'usage', text: varName });
+                }
+            }
+        });
+
+        return occurrences;
+    }
+
+    /**
+     * How often each variable and each class color ('brand-500' in `bg-brand-500`,
+     * any prefix) is used across the workspace, for ranking completions.
+     */
+    public async countUsages(token?: vscode.CancellationToken): Promise<{ variables: Map<string, number>; classColors: Map<string, number> }> {
+        await this.refresh(token);
+
+        const variables = new Map<string, number>();
+        const classColors = new Map<string, number>();
+        this.files.forEach((file) => {
+            for (const name of file.names) {
+                if (name.kind === 'usage') {
+                    variables.set(name.name, (variables.get(name.name) ?? 0) + 1);
+                }
+            }
+            for (const occurrence of file.classes) {
+                const colorName = parseTailwindClass(occurrence.name)?.colorName;
+                if (colorName) {
+                    classColors.set(colorName, (classColors.get(colorName) ?? 0) + 1);
+                }
+            }
+        });
+
+        return { variables, classColors };
+    }
+
+    private async refresh(token?: vscode.CancellationToken): Promise<void> {
+        const uris = await vscode.workspace.findFiles(this.include, this.exclude, 5000, token);
+        const openDocuments = new Map(vscode.workspace.textDocuments.map((document) => [document.uri.fsPath, document]));
+        const seen = new Set<string>();
+
+        for (const uri of uris) {
+            const fsPath = uri.fsPath;
+            seen.add(fsPath);
+            try {
+                const document = openDocuments.get(fsPath);
+                let key: string;
+                let text: (() => string);
+                if (document) {
+                    key = `v${document.version}`;
+                    text = () => document.getText();
+                } else {
+                    const stats = fs.statSync(fsPath);
+                    if (stats.size > MAX_FILE_SIZE) {
+                        this.files.delete(fsPath);
+                        continue;
+                    }
+                    key = `m${stats.mtimeMs}`;
+                    text = () => fs.readFileSync(fsPath, 'utf8');
+                }
+
+                if (this.files.get(fsPath)?.key !== key) {
+                    this.files.set(fsPath, indexFile(fsPath, text(), key));
+                }
+            } catch (error) {
+                this.files.delete(fsPath); // deleted or unreadable since findFiles
+            }
+        }
+
+        for (const fsPath of Array.from(this.files.keys())) {
+            if (!seen.has(fsPath)) {
+                this.files.delete(fsPath);
+            }
+        }
+    }
+}
+
+function indexFile(fsPath: string, text: string, key: string): IndexedFile {
+    const names: IndexedName[] = [];
+    let match;
+
+    varUsagePattern.lastIndex = 0;
+    while ((match = varUsagePattern.exec(text)) !== null) {
+        const start = match.index + match[0].length - match[1].length;
+        names.push({ name: match[1], start, end: start + match[1].length, kind: 'usage' });
+    }
+
+    // Declarations only count in stylesheets and <style> blocks; comments are blanked, keeping offsets
+    const isStylesheet = STYLESHEET_EXTENSIONS.test(fsPath);
+    if (isStylesheet || COMPONENT_EXTENSIONS.test(fsPath)) {
+        const source = isStylesheet ? text : extractStyleBlocks(text);
+        const stylesheet = parseCss(source);
+        const css = blankComments(source, stylesheet);
+        const preprocessor = PREPROCESSOR_EXTENSIONS.test(fsPath);
+
+        walkDeclarations(stylesheet.children, ({ property, start }) => {
+            if (/^--[\w-]+$/.test(property) || (preprocessor && /^[$@]/.test(property))) {
+                names.push({ name: property, start, end: start + property.length, kind: 'definition' });
+            }
+        });
+
+        if (preprocessor) {
+            for (const reference of findPreprocessorReferences(css)) {
+                // @{primary} writes the Less variable without its @
+                const written = css.substring(reference.start, reference.end).startsWith('@{')
+                    ? reference.name.substring(1)
+                    : reference.name;
+                const start = css.lastIndexOf(written, reference.end);
+                if (start >= reference.start) {
+                    names.push({ name: reference.name, start, end: start + written.length, kind: 'usage' });
+                }
+            }
+        }
+    }
+
+    return { key, lineStarts: findLineStarts(text), names, classes: findClassOccurrences(text) };
+}
+
+function positionAt(lineStarts: number[], offset: number): vscode.Position {
+    const line = lineIndexAt(lineStarts, offset);
+    return new vscode.Position(line, offset - lineStarts[line]);
+}
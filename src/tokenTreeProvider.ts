@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { toRgbaString } from './colorParser';
+import { ColorDecorationProvider, ContextColor, DefinitionLocation } from './colorDecorationProvider';
+import { compareContexts } from './selectorContexts';
+import { stripedSwatchSvg } from './swatchSvg';
+
+export type TokenGrouping = 'file' | 'context' | 'prefix';
+
+/**
+ * A node in the token explorer: a group (file, context or prefix), a variable, or one
+ * context's value of a variable. `context` on a variable limits it to that context.
+ */
+export type TokenNode =
+    | { kind: 'group'; label: string; varNames: string[]; context?: string }
+    | { kind: 'variable'; varName: string; context?: string }
+    | { kind: 'contextValue'; varName: string; context: string };
+
+const NO_FILE = '(unknown file)';
+const NO_PREFIX = '(no prefix)';
+
+/**
+ * Activity Bar tree listing every indexed color variable, grouped by source file,
+ * context or name prefix, with a swatch for each context. Reads the
+ * ColorDecorationProvider registry and is refreshed whenever it is rebuilt.
+ */
+export class TokenTreeProvider implements vscode.TreeDataProvider<TokenNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<TokenNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private filter = '';
+    private contextualColors: Map<string, ContextColor[]> = new Map();
+
+    constructor(private readonly decorationProvider: ColorDecorationProvider) {}
+
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getFilter(): string {
+        return this.filter;
+    }
+
+    public setFilter(filter: string): void {
+        this.filter = filter.trim();
+        this.refresh();
+    }
+
+    public getChildren(node?: TokenNode): TokenNode[] {
+        if (!node) {
+            this.contextualColors = this.decorationProvider.getContextualColorsMap();
+            return this.getGroups();
+        }
+        if (node.kind === 'group') {
+            return node.varNames.map((varName) => ({ kind: 'variable', varName, context: node.context }));
+        }
+        if (node.kind === 'variable' && !node.context) {
+            return this.getContextColors(node)
+                .map(({ context }) => ({ kind: 'contextValue', varName: node.varName, context }));
+        }
+        return [];
+    }
+
+    public getTreeItem(node: TokenNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${node.varNames.length}`;
+            item.contextValue = 'group';
+            item.iconPath = new vscode.ThemeIcon(this.getGrouping() === 'file' ? 'file' : this.getGrouping() === 'context' ? 'symbol-namespace' : 'symbol-constant');
+            return item;
+        }
+
+        const contextColors = this.getContextColors(node);
+        const item = new vscode.TreeItem(
+            node.kind === 'contextValue' ? contextLabel(node.context) : node.varName,
+            node.kind === 'variable' && !node.context && contextColors.length > 1
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        item.contextValue = node.kind;
+        item.description = contextColors.length === 1
+            ? contextColors[0].color.originalText
+            : contextColors.map(({ context, color }) => `${contextLabel(context)} ${color.originalText}`).join(' · ');
+        item.iconPath = swatchUri(contextColors.map(({ color }) => toRgbaString(color)));
+
+        const tooltip = new vscode.MarkdownString(`**${node.varName}**\n\n`);
+        for (const { context, color, chain } of contextColors) {
+            const via = chain && chain.length > 0 ? ` (${chain.join(' → ')})` : '';
+            tooltip.appendMarkdown(`- ${contextLabel(context)}: \`${color.originalText}\`${via}\n`);
+        }
+        item.tooltip = tooltip;
+
+        // Leaves open their declaration on click; expandable variables use the context menu
+        if (item.collapsibleState === vscode.TreeItemCollapsibleState.None) {
+            item.command = { title: 'Reveal Definition', command: 'cssColorPreview.tokens.revealDefinition', arguments: [node] };
+        }
+        return item;
+    }
+
+    /**
+     * The declaration to open for a node: the one in its context if it has one.
+     */
+    public getLocation(node: TokenNode): DefinitionLocation | undefined {
+        if (node.kind === 'group') {
+            return undefined;
+        }
+        const locations = this.decorationProvider.getDefinitionLocations().get(node.varName) ?? [];
+        return locations.find((location) => location.context === node.context) ?? locations[0];
+    }
+
+    /**
+     * The value as written: the node's context, or the active one for a whole variable.
+     */
+    public getValue(node: TokenNode): string | undefined {
+        if (node.kind === 'group') {
+            return undefined;
+        }
+        if (node.context) {
+            return this.getContextColors(node)[0]?.color.originalText;
+        }
+        return this.decorationProvider.getGlobalColorVariables().get(node.varName)?.originalText;
+    }
+
+    private getGroups(): TokenNode[] {
+        const grouping = this.getGrouping();
+        const groups = new Map<string, string[]>();
+        const add = (label: string, varName: string) => {
+            const varNames = groups.get(label) ?? [];
+            if (!varNames.includes(varName)) {
+                varNames.push(varName);
+            }
+            groups.set(label, varNames);
+        };
+
+        const locations = this.decorationProvider.getDefinitionLocations();
+        this.contextualColors.forEach((contextColors, varName) => {
+            if (!this.matchesFilter(varName, contextColors)) {
+                return;
+            }
+            if (grouping === 'context') {
+                contextColors.forEach(({ context }) => add(context, varName));
+            } else if (grouping === 'prefix') {
+                add(namePrefix(varName), varName);
+            } else {
+                const files = (locations.get(varName) ?? []).map((location) => relativePath(location.fileName));
+                (files.length > 0 ? files : [NO_FILE]).forEach((file) => add(file, varName));
+            }
+        });
+
+        return Array.from(groups.entries())
+            .sort(([a], [b]) => (grouping === 'context' ? compareContexts(a, b) : a.localeCompare(b)))
+            .map(([label, varNames]) => ({
+                kind: 'group',
+                label: grouping === 'context' ? contextLabel(label) : label,
+                varNames: varNames.sort(),
+                context: grouping === 'context' ? label : undefined,
+            }));
+    }
+
+    private getContextColors(node: TokenNode): ContextColor[] {
+        if (node.kind === 'group') {
+            return [];
+        }
+        const contextColors = (this.contextualColors.get(node.varName) ?? [])
+            .slice()
+            .sort((a, b) => compareContexts(a.context, b.context));
+        return node.context ? contextColors.filter((contextColor) => contextColor.context === node.context) : contextColors;
+    }
+
+    // Case-insensitive match on the name or any context's value
+    private matchesFilter(varName: string, contextColors: ContextColor[]): boolean {
+        if (!this.filter) {
+            return true;
+        }
+        const filter = this.filter.toLowerCase();
+        return varName.toLowerCase().includes(filter)
+            || contextColors.some(({ color }) => color.originalText.toLowerCase().includes(filter));
+    }
+
+    private getGrouping(): TokenGrouping {
+        return vscode.workspace.getConfiguration('trueColors').get<TokenGrouping>('tokenGrouping', 'file');
+    }
+}
+
+/**
+ * How a variable is written where it is used: `var(--x)`, `$x` or `@x`.
+ */
+export function toUsage(varName: string): string {
+    return varName.startsWith('--') ? `var(${varName})` : varName;
+}
+
+function swatchUri(colorStrings: string[]): vscode.Uri {
+    const svg = stripedSwatchSvg(colorStrings);
+    return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+function contextLabel(context: string): string {
+    return context === 'global' ? 'global' : `.${context}`;
+}
+
+// --text-primary → --text-*, $colors.primary → $colors.*, --primary → (no prefix)
+function namePrefix(varName: string): string {
+    const match = varName.match(/^(--|\$|@)([^-.]+)([-.])/);
+    return match ? `${match[1]}${match[2]}${match[3]}*` : NO_PREFIX;
+}
+
+function relativePath(fileName: string): string {
+    return vscode.workspace.asRelativePath(fileName, false) || path.basename(fileName);
+}